@@ -0,0 +1,60 @@
+#!/usr/bin/env tsx
+/**
+ * API Key Management Script for Zoho CRM MCP Server
+ *
+ * Usage:
+ *   npm run api-keys -- list
+ *   npm run api-keys -- create <name>
+ *   npm run api-keys -- revoke <id>
+ */
+
+import { apiKeyStore } from '../src/utils/api-key-store.js';
+
+async function main(): Promise<void> {
+  const [command, argument] = process.argv.slice(2);
+
+  try {
+    switch (command) {
+      case 'list': {
+        const keys = await apiKeyStore.list();
+        if (keys.length === 0) {
+          console.log('No API keys');
+        }
+        for (const key of keys) {
+          const status = key.revoked_at ? `revoked ${key.revoked_at}` : 'active';
+          console.log(`${key.id}  ${key.name}  created ${key.created_at}  last used ${key.last_used_at ?? 'never'}  ${status}`);
+        }
+        break;
+      }
+
+      case 'create': {
+        if (!argument) {
+          throw new Error('Usage: api-keys create <name>');
+        }
+        const { key, info } = await apiKeyStore.create(argument);
+        console.log(`✅ Created API key ${info.id} ("${info.name}")`);
+        console.log('Copy the key now, it is not shown again:');
+        console.log(key);
+        break;
+      }
+
+      case 'revoke': {
+        if (!argument) {
+          throw new Error('Usage: api-keys revoke <id>');
+        }
+        const info = await apiKeyStore.revoke(argument);
+        console.log(`✅ Revoked API key ${info.id} ("${info.name}")`);
+        break;
+      }
+
+      default:
+        console.log('Usage: api-keys <list | create <name> | revoke <id>>');
+        process.exit(command ? 1 : 0);
+    }
+  } catch (error) {
+    console.log('❌', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+main();
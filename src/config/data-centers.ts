@@ -0,0 +1,74 @@
+/**
+ * Zoho Data Centers
+ * Accounts server and API domain of every Zoho data center, keyed by region
+ */
+
+import { ConfigurationError } from '../types/index.js';
+
+export interface ZohoDataCenter {
+  /** Human-readable location */
+  location: string;
+  /** Accounts server issuing OAuth grants and tokens */
+  accountsUrl: string;
+  /** API domain serving the CRM API */
+  apiDomain: string;
+}
+
+export const ZOHO_DATA_CENTERS = {
+  'com': { location: 'United States', accountsUrl: 'https://accounts.zoho.com', apiDomain: 'https://www.zohoapis.com' },
+  'eu': { location: 'Europe', accountsUrl: 'https://accounts.zoho.eu', apiDomain: 'https://www.zohoapis.eu' },
+  'in': { location: 'India', accountsUrl: 'https://accounts.zoho.in', apiDomain: 'https://www.zohoapis.in' },
+  'com.au': { location: 'Australia', accountsUrl: 'https://accounts.zoho.com.au', apiDomain: 'https://www.zohoapis.com.au' },
+  'jp': { location: 'Japan', accountsUrl: 'https://accounts.zoho.jp', apiDomain: 'https://www.zohoapis.jp' },
+  'ca': { location: 'Canada', accountsUrl: 'https://accounts.zohocloud.ca', apiDomain: 'https://www.zohoapis.ca' },
+  'sa': { location: 'Saudi Arabia', accountsUrl: 'https://accounts.zoho.sa', apiDomain: 'https://www.zohoapis.sa' },
+  'com.cn': { location: 'China', accountsUrl: 'https://accounts.zoho.com.cn', apiDomain: 'https://www.zohoapis.com.cn' },
+} as const satisfies Record<string, ZohoDataCenter>;
+
+export type ZohoRegion = keyof typeof ZOHO_DATA_CENTERS;
+
+export const ZOHO_REGIONS = Object.keys(ZOHO_DATA_CENTERS) as [ZohoRegion, ...ZohoRegion[]];
+
+function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+function hostnameOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the data center of a region
+ */
+export function getDataCenter(region: string): ZohoDataCenter {
+  const dataCenter = ZOHO_DATA_CENTERS[region as ZohoRegion] as ZohoDataCenter | undefined;
+  if (!dataCenter) {
+    throw new ConfigurationError(`Unknown Zoho region "${region}". Supported regions: ${ZOHO_REGIONS.join(', ')}`);
+  }
+  return dataCenter;
+}
+
+/**
+ * Find the region served by an accounts server URL (such as the accounts-server
+ * parameter Zoho adds to the OAuth callback)
+ */
+export function findRegionByAccountsUrl(accountsUrl: string): ZohoRegion | undefined {
+  const normalized = normalizeUrl(accountsUrl);
+  return ZOHO_REGIONS.find((region) => ZOHO_DATA_CENTERS[region].accountsUrl === normalized);
+}
+
+/**
+ * Find the region served by an API domain (such as the api_domain of a token response).
+ * Sandbox and developer domains (sandbox.zohoapis.com) belong to the same data center.
+ */
+export function findRegionByApiDomain(apiDomain: string): ZohoRegion | undefined {
+  const hostname = hostnameOf(apiDomain);
+  if (!hostname || !apiDomain.toLowerCase().startsWith('https://')) {
+    return undefined;
+  }
+  return ZOHO_REGIONS.find((region) => hostname === `zohoapis.${region}` || hostname.endsWith(`.zohoapis.${region}`));
+}
@@ -4,7 +4,8 @@
 
 import { config as dotenvConfig } from 'dotenv';
 import { z } from 'zod';
-import { ConfigurationError, type EnvironmentConfig } from '../types/index.js';
+import { ConfigurationError, type EnvironmentConfig, type ZohoConnectionConfig } from '../types/index.js';
+import { findRegionByApiDomain, getDataCenter, ZOHO_REGIONS } from './data-centers.js';
 
 // Load environment variables
 dotenvConfig();
@@ -17,8 +18,38 @@ const envSchema = z.object({
   ZOHO_REFRESH_TOKEN: z.string().optional(),
   ZOHO_ACCESS_TOKEN: z.string().optional(),
   ZOHO_TOKEN_EXPIRES_AT: z.string().optional(),
-  ZOHO_REGION: z.string().default('com'),
-  ZOHO_API_BASE_URL: z.string().url().default('https://www.zohoapis.com'),
+  ZOHO_REGION: z.enum(ZOHO_REGIONS).default('com'),
+  // Derived from ZOHO_REGION when unset
+  ZOHO_API_BASE_URL: z.string().url().optional(),
+  ZOHO_REDIRECT_URI: z.string().url().optional(),
+  ZOHO_SCOPES: z.string().default('ZohoCRM.modules.ALL,ZohoCRM.users.ALL,ZohoCRM.settings.ALL,ZohoCRM.coql.READ'),
+  OAUTH_STATE_SECRET: z.string().min(32, 'OAUTH_STATE_SECRET must be at least 32 characters').optional(),
+
+  // Token Storage
+  TOKEN_STORE: z.enum(['file', 'memory', 'sqlite']).default('file'),
+  TOKEN_STORE_PATH: z.string().optional(),
+
+  // Multi-Organization Connections
+  ZOHO_CONNECTIONS: z.string().optional(),
+  ZOHO_CONNECTIONS_FILE: z.string().default('connections.json'),
+
+  // Per-User OAuth
+  USER_AUTH_MODE: z.enum(['disabled', 'optional', 'required']).default('disabled'),
+  USERS_FILE: z.string().default('users.json'),
+
+  // MCP Endpoint Authentication
+  MCP_AUTH_MODE: z.enum(['none', 'api_key', 'oauth', 'api_key_or_oauth']).default('none'),
+  API_KEYS_FILE: z.string().default('api-keys.json'),
+  MCP_OAUTH_ISSUER: z.string().url().optional(),
+  MCP_OAUTH_INTROSPECTION_URL: z.string().url().optional(),
+  MCP_OAUTH_CLIENT_ID: z.string().optional(),
+  MCP_OAUTH_CLIENT_SECRET: z.string().optional(),
+  MCP_OAUTH_RESOURCE: z.string().url().optional(),
+  MCP_OAUTH_SCOPES: z.string().optional(),
+
+  // Admin Credentials for the OAuth and admin web routes
+  ADMIN_USERNAME: z.string().default('admin'),
+  ADMIN_PASSWORD: z.string().optional(),
 
   // Server Configuration
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
@@ -38,8 +69,10 @@ const envSchema = z.object({
   CORS_CREDENTIALS: z.string().transform(Boolean).default('true'),
 
   // Rate Limiting
-  RATE_LIMIT_WINDOW_MS: z.string().transform(Number).pipe(z.number().int().positive()).default('900000'),
+  RATE_LIMIT_WINDOW_MS: z.string().transform(Number).pipe(z.number().int().positive()).default('60000'),
   RATE_LIMIT_MAX_REQUESTS: z.string().transform(Number).pipe(z.number().int().positive()).default('100'),
+  RATE_LIMIT_MAX_CONCURRENT: z.string().transform(Number).pipe(z.number().int().positive()).default('10'),
+  RATE_LIMIT_MAX_RETRIES: z.string().transform(Number).pipe(z.number().int().min(0)).default('3'),
 
   // Health Check Configuration
   HEALTH_CHECK_INTERVAL: z.string().transform(Number).pipe(z.number().int().positive()).default('30000'),
@@ -50,11 +83,54 @@ const envSchema = z.object({
   SSL_CERT_PATH: z.string().optional(),
   SSL_KEY_PATH: z.string().optional(),
 
+  // Attachments
+  ATTACHMENT_MAX_UPLOAD_BYTES: z.string().transform(Number).pipe(z.number().int().positive()).default('20971520'),
+  ATTACHMENT_MAX_DOWNLOAD_BYTES: z.string().transform(Number).pipe(z.number().int().positive()).default('5242880'),
+  ATTACHMENT_UPLOAD_DIR: z.string().optional(),
+
+  // Metadata Cache
+  METADATA_CACHE_TTL_MS: z.string().transform(Number).pipe(z.number().int().min(0)).default('3600000'),
+  METADATA_CACHE_FILE: z.string().optional(),
+  METADATA_CACHE_WARMUP: z.string().transform((val) => val === 'true').default('false'),
+  METADATA_CACHE_WARMUP_MODULES: z.string().default('Leads,Contacts,Accounts,Deals'),
+
   // Monitoring
-  ENABLE_METRICS: z.string().transform(Boolean).default('true'),
+  ENABLE_METRICS: z.string().transform((val) => val === 'true').default('true'),
   METRICS_PORT: z.string().transform(Number).pipe(z.number().int().min(1).max(65535)).default('9090'),
+  METRICS_HOST: z.string().default('127.0.0.1'),
+
+  // Tracing
+  TRACING_EXPORTER: z.enum(['none', 'otlp', 'file', 'console']).default('none'),
+  TRACING_FILE: z.string().default('traces.jsonl'),
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.string().url().optional(),
+  OTEL_SERVICE_NAME: z.string().default('zoho-crm-mcp-server'),
+});
+
+/**
+ * ADMIN_PASSWORD value shipped in older copies of env.example, refused at startup
+ */
+const PLACEHOLDER_ADMIN_PASSWORD = 'change_me';
+
+/**
+ * Name of the connection configured by the ZOHO_* variables
+ */
+export const DEFAULT_CONNECTION = 'default';
+
+/**
+ * Schema of one named connection in ZOHO_CONNECTIONS or the connections file.
+ * Missing credentials and endpoints are inherited from the default connection.
+ */
+export const connectionSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'Connection names may only contain letters, digits, "_" and "-"'),
+  clientId: z.string().optional(),
+  clientSecret: z.string().optional(),
+  region: z.enum(ZOHO_REGIONS).optional(),
+  baseUrl: z.string().url().optional(),
+  refreshToken: z.string().optional(),
 });
 
+export type ConnectionDefinition = z.infer<typeof connectionSchema>;
+
 /**
  * Validate and parse environment variables
  */
@@ -118,7 +194,131 @@ class Config {
       accessToken: this._env.ZOHO_ACCESS_TOKEN || '',
       tokenExpiresAt: this._env.ZOHO_TOKEN_EXPIRES_AT || '',
       region: this._env.ZOHO_REGION,
-      baseUrl: this._env.ZOHO_API_BASE_URL,
+      baseUrl: this._env.ZOHO_API_BASE_URL || getDataCenter(this._env.ZOHO_REGION).apiDomain,
+      accountsUrl: getDataCenter(this._env.ZOHO_REGION).accountsUrl,
+      // Defaults to the local OAuth server, which runs on PORT + 1
+      redirectUri: this._env.ZOHO_REDIRECT_URI || `http://localhost:${this._env.PORT + 1}/oauth/callback`,
+      scopes: this._env.ZOHO_SCOPES.split(',').map((scope) => scope.trim()).filter(Boolean),
+      stateSecret: this._env.OAUTH_STATE_SECRET,
+    };
+  }
+
+  /**
+   * Public base URL of the OAuth web routes, taken from the redirect URI
+   */
+  get oauthBaseUrl(): string {
+    return new URL(this.zoho.redirectUri).origin;
+  }
+
+  /**
+   * Get the default connection plus the named connections from ZOHO_CONNECTIONS
+   */
+  get connections(): ZohoConnectionConfig[] {
+    const defaultConnection: ZohoConnectionConfig = {
+      name: DEFAULT_CONNECTION,
+      clientId: this.zoho.clientId,
+      clientSecret: this.zoho.clientSecret,
+      region: this.zoho.region,
+      baseUrl: this.zoho.baseUrl,
+      accountsUrl: this.zoho.accountsUrl,
+      refreshToken: this.zoho.refreshToken,
+    };
+
+    if (!this._env.ZOHO_CONNECTIONS) {
+      return [defaultConnection];
+    }
+
+    let definitions: ConnectionDefinition[];
+    try {
+      definitions = z.array(connectionSchema).parse(JSON.parse(this._env.ZOHO_CONNECTIONS));
+    } catch (error) {
+      throw new ConfigurationError(
+        `ZOHO_CONNECTIONS must be a JSON array of connections: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    return [
+      defaultConnection,
+      ...definitions
+        .filter((definition) => definition.name !== DEFAULT_CONNECTION)
+        .map((definition) => this.resolveConnection(definition)),
+    ];
+  }
+
+  /**
+   * Fill a connection definition's missing values from the default connection
+   */
+  resolveConnection(definition: ConnectionDefinition): ZohoConnectionConfig {
+    const region = definition.region ?? this.zoho.region;
+    const connection: ZohoConnectionConfig = {
+      name: definition.name,
+      clientId: definition.clientId ?? this.zoho.clientId,
+      clientSecret: definition.clientSecret ?? this.zoho.clientSecret,
+      region,
+      baseUrl: definition.baseUrl ?? (definition.region ? getDataCenter(region).apiDomain : this.zoho.baseUrl),
+      accountsUrl: getDataCenter(region).accountsUrl,
+    };
+    if (definition.refreshToken) {
+      connection.refreshToken = definition.refreshToken;
+    }
+    return connection;
+  }
+
+  /**
+   * Get the file where connections added at runtime are saved
+   */
+  get connectionsFile(): string {
+    return this._env.ZOHO_CONNECTIONS_FILE;
+  }
+
+  /**
+   * Get per-user OAuth configuration
+   */
+  get userAuth() {
+    return {
+      mode: this._env.USER_AUTH_MODE,
+      usersFile: this._env.USERS_FILE,
+    };
+  }
+
+  /**
+   * Get MCP endpoint authentication configuration
+   */
+  get mcpAuth() {
+    const mode = this._env.MCP_AUTH_MODE;
+    return {
+      mode,
+      apiKeysEnabled: mode === 'api_key' || mode === 'api_key_or_oauth',
+      oauthEnabled: mode === 'oauth' || mode === 'api_key_or_oauth',
+      apiKeysFile: this._env.API_KEYS_FILE,
+      oauth: {
+        issuer: this._env.MCP_OAUTH_ISSUER,
+        introspectionUrl: this._env.MCP_OAUTH_INTROSPECTION_URL,
+        clientId: this._env.MCP_OAUTH_CLIENT_ID,
+        clientSecret: this._env.MCP_OAUTH_CLIENT_SECRET,
+        resource: this._env.MCP_OAUTH_RESOURCE,
+        scopes: (this._env.MCP_OAUTH_SCOPES || '').split(/[\s,]+/).filter(Boolean),
+      },
+    };
+  }
+
+  /**
+   * Get admin credentials for the OAuth and admin web routes
+   */
+  get admin() {
+    return {
+      username: this._env.ADMIN_USERNAME,
+      password: this._env.ADMIN_PASSWORD,
+    };
+  }
+
+  /**
+   * Get token storage configuration
+   */
+  get tokenStore() {
+    return {
+      type: this._env.TOKEN_STORE,
+      path: this._env.TOKEN_STORE_PATH,
     };
   }
 
@@ -159,12 +359,14 @@ class Config {
   }
 
   /**
-   * Get rate limiting configuration
+   * Get rate limiting configuration for requests to the Zoho CRM API (per connection)
    */
   get rateLimit() {
     return {
       windowMs: this._env.RATE_LIMIT_WINDOW_MS,
       maxRequests: this._env.RATE_LIMIT_MAX_REQUESTS,
+      maxConcurrent: this._env.RATE_LIMIT_MAX_CONCURRENT,
+      maxRetries: this._env.RATE_LIMIT_MAX_RETRIES,
     };
   }
 
@@ -178,6 +380,29 @@ class Config {
     };
   }
 
+  /**
+   * Get attachment configuration
+   */
+  get attachments() {
+    return {
+      maxUploadBytes: this._env.ATTACHMENT_MAX_UPLOAD_BYTES,
+      maxDownloadBytes: this._env.ATTACHMENT_MAX_DOWNLOAD_BYTES,
+      uploadDir: this._env.ATTACHMENT_UPLOAD_DIR,
+    };
+  }
+
+  /**
+   * Get metadata cache configuration (a TTL of 0 disables caching)
+   */
+  get metadataCache() {
+    return {
+      ttlMs: this._env.METADATA_CACHE_TTL_MS,
+      file: this._env.METADATA_CACHE_FILE,
+      warmup: this._env.METADATA_CACHE_WARMUP,
+      warmupModules: this._env.METADATA_CACHE_WARMUP_MODULES.split(',').map((module) => module.trim()).filter(Boolean),
+    };
+  }
+
   /**
    * Get monitoring configuration
    */
@@ -185,6 +410,19 @@ class Config {
     return {
       enabled: this._env.ENABLE_METRICS,
       port: this._env.METRICS_PORT,
+      host: this._env.METRICS_HOST,
+    };
+  }
+
+  /**
+   * Get OpenTelemetry tracing configuration
+   */
+  get tracing() {
+    return {
+      exporter: this._env.TRACING_EXPORTER,
+      file: this._env.TRACING_FILE,
+      otlpEndpoint: this._env.OTEL_EXPORTER_OTLP_ENDPOINT,
+      serviceName: this._env.OTEL_SERVICE_NAME,
     };
   }
 
@@ -221,6 +459,47 @@ class Config {
     if (this.server.corsOrigins.includes('*') && this.isProduction) {
       console.warn('Warning: CORS configured to allow all origins in production');
     }
+
+    // The localhost default only works for local development
+    if (this.isProduction && !this._env.ZOHO_REDIRECT_URI) {
+      throw new ConfigurationError('ZOHO_REDIRECT_URI is required in production: set it to the public /oauth/callback URL registered with Zoho');
+    }
+
+    // The API base URL must belong to the same data center as the accounts server
+    for (const connection of this.connections) {
+      const apiRegion = findRegionByApiDomain(connection.baseUrl);
+      if (apiRegion !== connection.region) {
+        const setting = connection.name === DEFAULT_CONNECTION ? 'ZOHO_API_BASE_URL' : `the baseUrl of connection "${connection.name}"`;
+        throw new ConfigurationError(
+          `${setting} (${connection.baseUrl}) ` +
+          (apiRegion ? `belongs to the "${apiRegion}" data center` : 'is not a Zoho API domain') +
+          `, but the region is "${connection.region}". ` +
+          `Use ${getDataCenter(connection.region).apiDomain} or leave it unset to derive it from the region`,
+          { connection: connection.name, region: connection.region, baseUrl: connection.baseUrl }
+        );
+      }
+    }
+
+    const { oauthEnabled, oauth } = this.mcpAuth;
+    if (oauthEnabled && (!oauth.issuer || !oauth.introspectionUrl || !oauth.resource)) {
+      throw new ConfigurationError(
+        'MCP_OAUTH_ISSUER, MCP_OAUTH_INTROSPECTION_URL and MCP_OAUTH_RESOURCE are required when MCP_AUTH_MODE uses oauth'
+      );
+    }
+
+    if (this._env.MCP_AUTH_MODE === 'none' && this._env.USER_AUTH_MODE !== 'required') {
+      console.warn('Warning: the MCP endpoint accepts unauthenticated requests (MCP_AUTH_MODE=none)');
+    }
+
+    if (this._env.ADMIN_PASSWORD === PLACEHOLDER_ADMIN_PASSWORD) {
+      throw new ConfigurationError(`ADMIN_PASSWORD is still the placeholder "${PLACEHOLDER_ADMIN_PASSWORD}"; set a password of your own`);
+    }
+
+    if (!this._env.ADMIN_PASSWORD) {
+      console.warn(this.isProduction
+        ? 'Warning: ADMIN_PASSWORD is not set; the OAuth and admin web routes are disabled'
+        : 'Warning: ADMIN_PASSWORD is not set; the OAuth web routes are unprotected and key management is disabled');
+    }
   }
 
   /**
@@ -235,6 +514,9 @@ class Config {
       mcpServerName: this._env.MCP_SERVER_NAME,
       mcpServerVersion: this._env.MCP_SERVER_VERSION,
       zohoRegion: this._env.ZOHO_REGION,
+      tokenStore: this._env.TOKEN_STORE,
+      userAuthMode: this._env.USER_AUTH_MODE,
+      mcpAuthMode: this._env.MCP_AUTH_MODE,
       sslEnabled: this._env.SSL_ENABLED,
       metricsEnabled: this._env.ENABLE_METRICS,
     };
@@ -264,7 +546,7 @@ export function checkRequiredEnvVars(): void {
       
 Please ensure you have:
 1. Set ZOHO_CLIENT_ID and ZOHO_CLIENT_SECRET in your .env file
-2. Visit https://nazareno-zcrm-mcp.interconnecta.ai/oauth/authorize to complete OAuth flow
+2. Visit ${config.oauthBaseUrl}/oauth/authorize to complete OAuth flow
 
 Required variables:
 ${required.map(key => `  - ${key}`).join('\n')}
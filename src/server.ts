@@ -7,11 +7,121 @@
 import './polyfills.js';
 import { FastMCP } from 'fastmcp';
 import express from 'express';
+import type { IncomingMessage } from 'http';
 import { config, checkRequiredEnvVars } from './config/index.js';
+import { ZOHO_REGIONS, type ZohoRegion } from './config/data-centers.js';
 import { logger } from './utils/logger.js';
 import { zohoCRMClient } from './utils/zoho-crm-client.js';
 import { z } from 'zod';
-import { OAuthHandler } from './utils/oauth-handler.js';
+import { connectionRegistry } from './utils/connection-registry.js';
+import { userRegistry } from './utils/user-registry.js';
+import { apiKeyStore } from './utils/api-key-store.js';
+import { mcpAuthenticator } from './utils/mcp-auth.js';
+import { isAdminRequest, requireAdmin } from './utils/admin-auth.js';
+import { OAUTH_NONCE_COOKIE, OAUTH_STATE_TTL_MS, oauthStateManager } from './utils/oauth-state.js';
+import { invalidateMetadataCache, loadMetadataCache } from './utils/metadata-cache.js';
+import { metrics } from './utils/metrics.js';
+import { tracing } from './utils/tracing.js';
+import { completeFieldName, completeModuleName, completePicklistValue, completionArgument, trackCompletionContext } from './utils/completions.js';
+import { resolveFieldNames, resolveModuleName } from './utils/name-resolver.js';
+import { toolAction, toolError } from './utils/tool-errors.js';
+import { InvalidFieldError, ZohoMcpError, type CRMModule, type CriteriaNode, type McpSessionAuth } from './types/index.js';
+
+const connectionParam = z.string().optional().describe('Named Zoho CRM connection (organization) to use, see list_connections. Defaults to "default"');
+
+const freshParam = z.boolean().default(false).describe('Fetch from Zoho instead of the metadata cache (and refresh the cache)');
+
+const criteriaValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+const criteriaConditionSchema = z.object({
+  field: z.string().describe('Field API name or label'),
+  operator: z.enum([
+    'equals', 'not_equal', 'starts_with', 'in', 'not_in',
+    'greater_than', 'greater_equal', 'less_than', 'less_equal', 'between'
+  ]).describe('Comparison operator'),
+  value: z.union([criteriaValueSchema, z.array(criteriaValueSchema)])
+    .describe('Value to compare with. Use an array for in/not_in and a two-item array for between')
+});
+
+const criteriaNodeSchema: z.ZodType<CriteriaNode> = z.lazy(() => z.union([
+  criteriaConditionSchema,
+  z.object({
+    group_operator: z.enum(['and', 'or']).describe('How the conditions in the group are combined'),
+    group: z.array(criteriaNodeSchema).min(1).describe('Conditions or nested groups')
+  })
+]));
+
+/**
+ * Read a cookie from the request's Cookie header
+ */
+function readCookie(req: express.Request, name: string): string | undefined {
+  for (const pair of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = pair.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Escape text for insertion into an HTML page
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Check that a session passed to a resource template completer is one this server authenticated.
+ * FastMCP types those sessions loosely, unlike the sessions passed to tools, prompts and loaders.
+ */
+function isSessionAuth(auth: Record<string, unknown> | undefined): auth is NonNullable<McpSessionAuth> {
+  return typeof auth?.method === 'string' && typeof auth.subject === 'string';
+}
+
+/**
+ * The connection a tool call names in its arguments, if any
+ */
+function connectionArgument(args: unknown): string | undefined {
+  return typeof args === 'object' && args !== null && 'connection' in args && typeof args.connection === 'string'
+    ? args.connection
+    : undefined;
+}
+
+/**
+ * Check a record ID taken from a prompt argument before it is used in an API path
+ */
+function requireRecordId(value: string | undefined, argument: string): string {
+  if (!value || !/^\d+$/.test(value.trim())) {
+    throw new ZohoMcpError(`${argument} must be a numeric Zoho record ID`, 'INVALID_ARGUMENT', 400);
+  }
+  return value.trim();
+}
+
+/**
+ * Check a YYYY-MM-DD prompt argument, falling back to a default date
+ */
+function dateArgument(value: string | undefined, argument: string, fallback: Date): string {
+  if (!value) {
+    return fallback.toISOString().slice(0, 10);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    throw new ZohoMcpError(`${argument} must be a date in YYYY-MM-DD format`, 'INVALID_ARGUMENT', 400);
+  }
+  return value.trim();
+}
+
+/**
+ * Load a piece of CRM context for a prompt as a titled JSON block.
+ * A failing lookup is reported in the block instead of failing the whole prompt.
+ */
+async function contextSection(title: string, load: () => Promise<unknown>): Promise<string> {
+  try {
+    return `## ${title}\n\`\`\`json\n${JSON.stringify(await load(), null, 2)}\n\`\`\``;
+  } catch (error) {
+    return `## ${title}\n(Could not load: ${error instanceof Error ? error.message : 'Unknown error'})`;
+  }
+}
 
 /**
  * Main function
@@ -31,29 +141,84 @@ async function main(): Promise<void> {
     config.validate();
     
     logger.info('Starting Zoho CRM MCP Server with FastMCP', config.getSummary());
+    tracing.start();
 
     // Create Express app for OAuth handling
     const app = express();
     app.use(express.json());
     app.use(express.urlencoded({ extended: true }));
 
-    // Initialize OAuth handler
-    const oauthHandler = new OAuthHandler();
+    // Load connections added through earlier OAuth flows, and users who linked their own Zoho account
+    await connectionRegistry.loadSavedConnections();
+    await userRegistry.load();
+
+    // Reuse module metadata cached by the previous run, and fetch the rest in the background
+    await loadMetadataCache();
+    if (config.metadataCache.warmup) {
+      void connectionRegistry.warmMetadataCache(config.metadataCache.warmupModules);
+    }
+    const oauthHandler = connectionRegistry.getOAuthHandler();
+
+    // Authorizing a connection replaces its shared tokens, so it needs the admin credentials.
+    // Linking a personal account (?mode=user) issues an access key to the MCP endpoint, so when the
+    // endpoint requires authentication it needs the admin credentials or a credential the endpoint accepts.
+    // The callback needs no credentials: its signed state proves which of the two started the flow.
+    const adminOnly = requireAdmin({ allowWhenUnconfigured: true });
+    const adminUnlessUserLink: express.RequestHandler = async (req, res, next) => {
+      if (req.query.mode !== 'user') {
+        return adminOnly(req, res, next);
+      }
+      if (config.mcpAuth.mode === 'none' || isAdminRequest(req) || await mcpAuthenticator.acceptsCredential(req.headers.authorization)) {
+        return next();
+      }
+      logger.warn('Rejected unauthenticated request to link a Zoho account');
+      res.set('WWW-Authenticate', 'Basic realm="Zoho CRM MCP Server", charset="UTF-8"');
+      return res.status(401).send('Sign in with the admin credentials, or with your MCP API key as the password, to link your Zoho account');
+    };
     
     // OAuth routes
-    app.get('/oauth/authorize', async (req, res) => {
+    // ?connection=<name> authorizes a named connection, creating it (optionally with ?region=<dc>) if needed
+    // ?mode=user links the person authorizing to their own Zoho account and issues them a personal access key
+    app.get('/oauth/authorize', adminUnlessUserLink, async (req, res) => {
       try {
-        const authUrl = await oauthHandler.getAuthorizationUrl();
-        res.redirect(authUrl);
+        const connection = typeof req.query.connection === 'string' ? req.query.connection : undefined;
+        const region = typeof req.query.region === 'string' ? req.query.region : undefined;
+        const mode = req.query.mode === 'user' ? 'user' : 'connection';
+
+        if (connection && !connectionRegistry.has(connection)) {
+          if (mode === 'user') {
+            return res.status(404).send(`Unknown connection "${connection}"`);
+          }
+          if (region && !(ZOHO_REGIONS as string[]).includes(region)) {
+            return res.status(400).send(`Unknown region "${region}". Supported regions: ${ZOHO_REGIONS.join(', ')}`);
+          }
+          await connectionRegistry.addConnection(region ? { name: connection, region: region as ZohoRegion } : { name: connection });
+        }
+
+        const connectionHandler = connectionRegistry.getOAuthHandler(connection);
+        const { state, nonce, codeChallenge } = oauthStateManager.create(connectionHandler.connectionName, mode);
+
+        // Bind the flow to this browser, so a callback URL started elsewhere is rejected
+        res.cookie(OAUTH_NONCE_COOKIE, nonce, {
+          httpOnly: true,
+          sameSite: 'lax',
+          secure: config.zoho.redirectUri.startsWith('https:'),
+          path: '/oauth',
+          maxAge: OAUTH_STATE_TTL_MS,
+        });
+
+        const authUrl = await connectionHandler.getAuthorizationUrl(state, codeChallenge);
+        return res.redirect(authUrl);
       } catch (error) {
         logger.error('OAuth authorization failed:', error);
-        res.status(500).send('OAuth authorization failed');
+        return res.status(500).send('OAuth authorization failed');
       }
     });
 
     app.get('/oauth/callback', async (req, res) => {
       try {
-        const { code, error } = req.query;
+        const { code, error, state } = req.query;
+        const accountsServer = typeof req.query['accounts-server'] === 'string' ? req.query['accounts-server'] : undefined;
         
         if (error) {
           logger.error('OAuth callback error:', error);
@@ -64,17 +229,48 @@ async function main(): Promise<void> {
           return res.status(400).send('No authorization code received');
         }
 
-        const tokens = await oauthHandler.exchangeCodeForTokens(code as string);
+        // The signed state carries the connection and mode of the flow started at /oauth/authorize
+        let flow;
+        try {
+          flow = oauthStateManager.verify(typeof state === 'string' ? state : '', readCookie(req, OAUTH_NONCE_COOKIE));
+        } catch (stateError) {
+          logger.warn('Rejected OAuth callback:', stateError instanceof Error ? stateError.message : stateError);
+          return res.status(400).send(stateError instanceof Error ? stateError.message : 'Invalid OAuth state');
+        }
+        res.clearCookie(OAUTH_NONCE_COOKIE, { path: '/oauth' });
+
+        if (flow.mode === 'user') {
+          const { user, accessKey } = await userRegistry.linkUser(flow.connection, code as string, flow.codeVerifier, accountsServer);
+
+          return res.send(`
+            <html>
+              <body>
+                <h1>✅ Zoho Account Linked</h1>
+                <p>Signed in as <strong>${escapeHtml(user.name)}</strong> (${escapeHtml(user.email)}) on connection <code>${escapeHtml(user.connection)}</code>.</p>
+                <p>Your personal MCP access key is shown only once. Copy it now:</p>
+                <pre>${accessKey}</pre>
+                <p>Configure your MCP client to send it on every request:</p>
+                <pre>Authorization: Bearer ${accessKey}</pre>
+                <p>CRM actions made with this key use your own Zoho permissions and appear under your name.
+                Linking again issues a new key and invalidates this one.</p>
+              </body>
+            </html>
+          `);
+        }
+
+        const connectionHandler = connectionRegistry.getOAuthHandler(flow.connection);
+        const tokens = await connectionHandler.exchangeCodeForTokens(code as string, flow.codeVerifier, accountsServer);
         
-        // Save tokens to .env file
-        await oauthHandler.saveTokensToEnv(tokens);
+        // Save tokens to the token store; the CRM client picks them up immediately
+        await connectionHandler.saveTokens(tokens);
         
         return res.send(`
           <html>
             <body>
               <h1>✅ OAuth Success!</h1>
-              <p>Tokens have been saved to your .env file.</p>
-              <p>You can now restart the server to use the CRM API.</p>
+              <p>Connection: <code>${connectionHandler.connectionName}</code></p>
+              <p>Tokens have been saved to the ${config.tokenStore.type} token store.</p>
+              <p>The server will use them for CRM API calls right away.</p>
               <p><a href="/health">Check server health</a></p>
             </body>
           </html>
@@ -85,9 +281,45 @@ async function main(): Promise<void> {
       }
     });
 
+    // API key management for the MCP endpoint
+    app.get('/admin/api-keys', requireAdmin(), async (req, res) => {
+      try {
+        res.json(await apiKeyStore.list());
+      } catch (error) {
+        logger.error('Listing API keys failed:', error);
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    });
+
+    app.post('/admin/api-keys', requireAdmin(), async (req, res) => {
+      try {
+        const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+        if (!name) {
+          return res.status(400).json({ error: 'A key name is required' });
+        }
+
+        const { key, info } = await apiKeyStore.create(name);
+        // The key is only shown here; the server keeps its hash
+        return res.status(201).json({ ...info, key });
+      } catch (error) {
+        logger.error('Creating API key failed:', error);
+        return res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    });
+
+    app.delete('/admin/api-keys/:id', requireAdmin(), async (req, res) => {
+      try {
+        res.json(await apiKeyStore.revoke(req.params.id as string));
+      } catch (error) {
+        const status = error instanceof ZohoMcpError ? error.statusCode : 500;
+        res.status(status).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    });
+
     // Root endpoint with OAuth instructions
-    app.get('/', async (req, res) => {
+    app.get('/', adminOnly, async (req, res) => {
       const oauthStatus = await oauthHandler.getOAuthStatus();
+      const connections = await connectionRegistry.getStatuses();
       
       res.send(`
         <html>
@@ -115,6 +347,26 @@ async function main(): Promise<void> {
               <strong>Tokens:</strong> ${oauthStatus.hasTokens ? 'Available' : 'Not Available'}
             </div>
             
+            <h2>🏢 Connections</h2>
+            <ul>
+              ${connections.map((connection) => `
+                <li>
+                  <code>${connection.name}</code> (${connection.region}) -
+                  ${connection.authorized ? 'Authorized' : 'Not authorized'}
+                  - <a href="/oauth/authorize?connection=${encodeURIComponent(connection.name)}">Authorize</a>
+                </li>
+              `).join('')}
+            </ul>
+            <p>Add a connection with <code>/oauth/authorize?connection=&lt;name&gt;&amp;region=&lt;${ZOHO_REGIONS.join('|')}&gt;</code></p>
+            
+            <h2>🔒 MCP Endpoint Authentication</h2>
+            <p><strong>Mode:</strong> <code>${config.mcpAuth.mode}</code></p>
+            
+            <h2>👤 Per-User Access</h2>
+            <p><strong>Mode:</strong> <code>${config.userAuth.mode}</code> - ${userRegistry.size} linked user(s)</p>
+            <p>Link your own Zoho account to get a personal MCP access key, so CRM actions run with your permissions and under your name.</p>
+            <a href="/oauth/authorize?mode=user" class="button">👤 Link My Zoho Account</a>
+            
             <h2>📋 Setup Instructions</h2>
             <pre>${oauthStatus.instructions}</pre>
             
@@ -124,11 +376,9 @@ async function main(): Promise<void> {
             
             <h2>🔧 Zoho OAuth Configuration</h2>
             <p><strong>Redirect URI:</strong> <code>${oauthStatus.redirectUri}</code></p>
-            <p><strong>Required Scopes:</strong></p>
+            <p><strong>Requested Scopes</strong> (<code>ZOHO_SCOPES</code>):</p>
             <ul>
-              <li><code>ZohoCRM.modules.ALL</code> - Access to all CRM modules</li>
-              <li><code>ZohoCRM.users.ALL</code> - Access to user information</li>
-              <li><code>ZohoCRM.settings.ALL</code> - Access to module and field metadata</li>
+              ${oauthStatus.scopes.map((scope) => `<li><code>${scope}</code></li>`).join('')}
             </ul>
             <p><strong>OAuth Flow:</strong> Server-based (not self-client)</p>
             <p><strong>How it works:</strong></p>
@@ -142,18 +392,33 @@ async function main(): Promise<void> {
             <h2>📚 Available Endpoints</h2>
             <ul>
               <li><code>GET /</code> - This page</li>
-              <li><code>GET /oauth/authorize</code> - Start OAuth flow</li>
+              <li><code>GET /oauth/authorize</code> - Start OAuth flow (<code>?connection=&lt;name&gt;</code> for another organization, <code>?mode=user</code> to link your own account)</li>
               <li><code>GET /oauth/callback</code> - OAuth callback</li>
+              <li><code>GET /admin/api-keys</code>, <code>POST /admin/api-keys</code>, <code>DELETE /admin/api-keys/:id</code> - List, create and revoke MCP API keys (admin)</li>
               <li><code>GET /health</code> - Server health check</li>
               <li><code>POST /mcp</code> - MCP endpoint (port 8000)</li>
             </ul>
             
             <h2>🛠️ MCP Tools Available</h2>
             <ul>
-              <li><code>search_records</code> - Search records in any CRM module</li>
+              <li><code>search_records</code> - Search records by criteria, email, phone or word</li>
               <li><code>get_record</code> - Get specific record by ID</li>
+              <li><code>get_related_lists</code> - List the related lists of a module</li>
+              <li><code>list_related_records</code> - List related records of a record</li>
+              <li><code>execute_coql</code> - Run COQL SELECT queries</li>
+              <li><code>create_record</code> - Create records in any CRM module</li>
+              <li><code>update_record</code> - Update a record by ID</li>
+              <li><code>upsert_records</code> - Insert or update records by duplicate check fields</li>
+              <li><code>convert_lead</code> - Convert a lead into an Account, Contact and Deal</li>
+              <li><code>delete_record</code> - Delete a record by ID</li>
+              <li><code>list_notes</code>, <code>add_note</code>, <code>update_note</code>, <code>delete_note</code> - Manage the notes of a record</li>
+              <li><code>list_attachments</code>, <code>upload_attachment</code>, <code>download_attachment</code> - Manage the attachments of a record</li>
               <li><code>list_modules</code> - List all available CRM modules</li>
               <li><code>get_module_fields</code> - Get field metadata for a module</li>
+              <li><code>get_module_layouts</code> - Get the layouts of a module</li>
+              <li><code>invalidate_metadata_cache</code> - Drop cached module metadata</li>
+              <li><code>list_connections</code> - List Zoho CRM connections and their auth status</li>
+              <li><code>get_current_user</code> - Show which Zoho user this session acts as</li>
               <li><code>health_check</code> - Test CRM API connectivity</li>
             </ul>
           </body>
@@ -178,6 +443,8 @@ async function main(): Promise<void> {
           zoho_message: crmTest.success 
             ? 'API connection successful'
             : (crmTest.error || 'API connection failed'),
+          zoho_token: zohoCRMClient.getTokenStatus(),
+          zoho_api_limits: zohoCRMClient.getRateLimitStatus(),
         };
 
         res.json(healthData);
@@ -196,45 +463,108 @@ async function main(): Promise<void> {
       logger.info(`OAuth authorization URL: http://localhost:${expressPort}/oauth/authorize`);
     });
 
+    // Identify the caller from a personal access key, an API key or an OAuth access token.
+    // Rejections are reported as 401 responses by the HTTP transport.
+    const authenticate = (request: IncomingMessage): Promise<McpSessionAuth> =>
+      mcpAuthenticator.authenticate(request.headers.authorization);
+    const { oauthEnabled, oauth: mcpOAuth } = config.mcpAuth;
+
     // Create FastMCP server instance
-    const server = new FastMCP({
+    const server = new FastMCP<McpSessionAuth>({
+      ...(config.mcpAuth.mode !== 'none' || config.userAuth.mode !== 'disabled' ? { authenticate } : {}),
+      // Publish protected resource metadata (RFC 9728) so MCP clients can find the authorization server
+      ...(oauthEnabled ? {
+        oauth: {
+          enabled: true,
+          protectedResource: {
+            resource: mcpOAuth.resource as string,
+            authorizationServers: [mcpOAuth.issuer as string],
+            bearerMethodsSupported: ['header'],
+            ...(mcpOAuth.scopes.length > 0 ? { scopesSupported: mcpOAuth.scopes } : {}),
+          },
+        },
+      } : {}),
       name: config.mcp.serverName,
       version: '1.0.0', // FastMCP expects semver format
       instructions: `
 This is a Zoho CRM MCP server that provides tools for interacting with Zoho CRM API.
 
 Available tools include:
-- search_records: Search records in any CRM module with criteria, pagination, and sorting
+- search_records: Search records in any CRM module by criteria, email, phone or word, with pagination
 - get_record: Get a specific record by ID from any module
+- get_related_lists: List the related lists of a module
+- list_related_records: List related records (e.g., Deals of an Account) of a record
+- execute_coql: Run COQL SELECT queries with lookups, aggregates and paging
+- create_record: Create one or more records in any module
+- update_record: Update a specific record by ID
+- upsert_records: Insert or update records using duplicate check fields
+- convert_lead: Convert a lead into an Account, Contact and optional Deal
+- delete_record: Delete a specific record by ID
+- list_notes, add_note, update_note, delete_note: Manage the notes of a record
+- list_attachments, upload_attachment, download_attachment: Manage the attachments of a record
 - list_modules: List all available CRM modules
 - get_module_fields: Get field metadata for a specific module
+- get_module_layouts: Get the layouts of a specific module
+- invalidate_metadata_cache: Drop cached module metadata after changing modules or fields in Zoho
+- list_connections: List the configured Zoho CRM organizations and their auth status
+- get_current_user: Show which Zoho user this session acts as
 - health_check: Test CRM API connectivity
 
+Every tool accepts an optional "connection" argument naming the Zoho CRM organization to use.
+Sessions authenticated with a personal access key act as the linked Zoho user, with that user's permissions.
 The server automatically handles authentication using OAuth 2.0 with refresh tokens.
 All API responses include comprehensive data with proper error handling.
       `.trim(),
     });
 
+    // Trace every tool registered below, and count its calls, failures and latency.
+    // Each call first checks that the session's credential has not been revoked since it connected.
+    // Errors are returned as tool errors named after the tool, e.g. "Search records failed: ...".
+    const addTool = server.addTool.bind(server);
+    server.addTool = (tool) => addTool({
+      ...tool,
+      execute: tracing.instrumentTool(tool.name, metrics.instrumentTool(tool.name, async (args, context) => {
+        try {
+          await mcpAuthenticator.verifySession(context.session);
+          return await tool.execute(args, context);
+        } catch (error) {
+          return toolError(toolAction(tool.name), error, context.session, connectionArgument(args));
+        }
+      })),
+    });
+
     // Add search_records tool
     server.addTool({
       name: 'search_records',
-      description: 'Search records in any Zoho CRM module with criteria, pagination, and sorting',
+      description: 'Search records in any Zoho CRM module by criteria, email, phone or word, with pagination. Without a search mode, lists the module\'s records with sorting',
       parameters: z.object({
-        module: z.string().describe('CRM module name (e.g., Leads, Contacts, Accounts, Deals)'),
-        criteria: z.string().optional().describe('Search criteria in format "field:value"'),
+        connection: connectionParam,
+        module: z.string().describe('CRM module API name or label (e.g., Leads, Contacts, Deals, "Sales Orders")'),
+        criteria: z.union([z.string(), criteriaNodeSchema]).optional().describe(
+          'Search criteria. Either a Zoho criteria string such as "((Last_Name:equals:Burns)and(Lead_Source:equals:Web))" ' +
+          'or a structured object ({field, operator, value} or {group_operator, group}) that is checked against the module\'s fields'
+        ),
+        email: z.string().optional().describe('Search all email fields for this address'),
+        phone: z.string().optional().describe('Search all phone fields for this number'),
+        word: z.string().optional().describe('Search all text fields for this word'),
         page: z.number().int().min(1).default(1).describe('Page number for pagination'),
-        per_page: z.number().int().min(1).max(200).default(25).describe('Number of records per page (max 200)'),
-        sort_by: z.string().optional().describe('Field to sort by'),
+        per_page: z.number().int().min(1).max(200).optional().describe('Number of records per page (max 200). Defaults to 25, or 200 with auto_paginate'),
+        sort_by: z.string().optional().describe('Field API name or label to sort by (only when no search mode is used)'),
         sort_order: z.enum(['asc', 'desc']).default('asc').describe('Sort order'),
-        fields: z.array(z.string()).optional().describe('Specific fields to return')
+        fields: z.array(z.string()).optional().describe('Field API names or labels to return'),
+        page_token: z.string().optional().describe('Page token from a previous response (next_page_token), needed past the first 2,000 records'),
+        auto_paginate: z.boolean().default(false).describe('Fetch consecutive pages until there are no more records or max_records is reached'),
+        max_records: z.number().int().min(1).max(10000).default(1000).describe('Maximum records to return when auto_paginate is true')
       }),
-      execute: async (params) => {
-        try {
-          const result = await zohoCRMClient.searchRecords(params as any);
-          return JSON.stringify(result, null, 2);
-        } catch (error) {
-          return `Search records failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-        }
+      execute: async (params, { reportProgress, session }) => {
+        let fetched = 0;
+        const result = await userRegistry.getClient(session, params.connection).searchRecords(params, async (page) => {
+          if (params.auto_paginate) {
+            fetched += page.records.length;
+            await reportProgress({ progress: Math.min(fetched, params.max_records), total: params.max_records });
+          }
+        });
+        return JSON.stringify(result, null, 2);
       }
     });
 
@@ -243,17 +573,300 @@ All API responses include comprehensive data with proper error handling.
       name: 'get_record',
       description: 'Get a specific record by ID from any Zoho CRM module',
       parameters: z.object({
-        module: z.string().describe('CRM module name (e.g., Leads, Contacts, Accounts, Deals)'),
+        connection: connectionParam,
+        module: z.string().describe('CRM module API name or label (e.g., Leads, Contacts, Deals, "Sales Orders")'),
         record_id: z.string().describe('Record ID to retrieve'),
-        fields: z.array(z.string()).optional().describe('Specific fields to return')
+        fields: z.array(z.string()).optional().describe('Field API names or labels to return')
       }),
-      execute: async (params) => {
-        try {
-          const result = await zohoCRMClient.getRecord(params as any);
-          return JSON.stringify(result, null, 2);
-        } catch (error) {
-          return `Get record failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).getRecord(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add get_related_lists tool
+    server.addTool({
+      name: 'get_related_lists',
+      description: 'List the related lists of a CRM module (e.g., Contacts and Deals of Accounts, Notes, Attachments, Activities) with their API names',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module API name or label (e.g., Leads, Contacts, Deals, "Sales Orders")'),
+        fresh: freshParam
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).getRelatedLists(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add list_related_records tool
+    server.addTool({
+      name: 'list_related_records',
+      description: 'List the records of a related list of a specific record, e.g. the Deals of an Account or the Notes of a Contact. Use get_related_lists to find the related list API name',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module of the parent record (e.g., Accounts)'),
+        record_id: z.string().describe('Parent record ID'),
+        related_list: z.string().describe('Related list API name (e.g., Deals, Contacts, Notes, Attachments, Activities)'),
+        fields: z.array(z.string()).optional().describe('Specific fields to return'),
+        page: z.number().int().min(1).default(1).describe('Page number for pagination'),
+        per_page: z.number().int().min(1).max(200).default(25).describe('Number of records per page (max 200)'),
+        sort_by: z.string().optional().describe('Field to sort by'),
+        sort_order: z.enum(['asc', 'desc']).default('asc').describe('Sort order'),
+        page_token: z.string().optional().describe('Page token from a previous response (next_page_token)')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).listRelatedRecords(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add execute_coql tool
+    server.addTool({
+      name: 'execute_coql',
+      description: 'Run a COQL SELECT query against Zoho CRM. Supports lookup traversal (Account_Name.Industry), aggregates and LIMIT/OFFSET paging. Module and field API names are checked against metadata before sending',
+      parameters: z.object({
+        connection: connectionParam,
+        query: z.string().describe('COQL statement, e.g. "select Last_Name, Account_Name.Account_Name from Contacts where Lead_Source = \'Web\'"'),
+        limit: z.number().int().min(1).max(2000).default(200).describe('Rows per page, used when the query has no LIMIT clause (max 2000)'),
+        offset: z.number().int().min(0).default(0).describe('Rows to skip, used when the query has no LIMIT clause'),
+        validate: z.boolean().default(true).describe('Check module and field API names against metadata before sending')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).executeCoql(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add create_record tool
+    server.addTool({
+      name: 'create_record',
+      description: 'Create one or more records in any Zoho CRM module. Returns the per-record result reported by Zoho',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module API name or label (e.g., Leads, Contacts, Deals, "Sales Orders")'),
+        data: z.array(z.record(z.unknown())).min(1).max(100).describe('Records to create, keyed by field API name (max 100)'),
+        trigger: z.array(z.enum(['workflow', 'approval', 'blueprint'])).optional().describe('Automation to trigger on create')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).createRecords(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add update_record tool
+    server.addTool({
+      name: 'update_record',
+      description: 'Update fields of a specific record by ID in any Zoho CRM module',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module API name or label (e.g., Leads, Contacts, Deals, "Sales Orders")'),
+        record_id: z.string().describe('Record ID to update'),
+        data: z.record(z.unknown()).describe('Fields to update, keyed by field API name'),
+        trigger: z.array(z.enum(['workflow', 'approval', 'blueprint'])).optional().describe('Automation to trigger on update')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).updateRecord(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add upsert_records tool
+    server.addTool({
+      name: 'upsert_records',
+      description: 'Insert or update records in any Zoho CRM module, matching existing records on duplicate check fields. Reports whether each input was inserted, updated or rejected',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module API name or label (e.g., Leads, Contacts, Deals, "Sales Orders")'),
+        data: z.array(z.record(z.unknown())).min(1).max(100).describe('Records to upsert, keyed by field API name (max 100)'),
+        duplicate_check_fields: z.array(z.string()).optional().describe('Field API names or labels used to find existing records (e.g., ["Email"]). Defaults to the module\'s unique fields'),
+        trigger: z.array(z.enum(['workflow', 'approval', 'blueprint'])).optional().describe('Automation to trigger on upsert')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).upsertRecords(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add convert_lead tool
+    server.addTool({
+      name: 'convert_lead',
+      description: 'Convert a lead into an Account and a Contact, optionally creating a Deal. Can attach to an existing Account or Contact and assign an owner. Returns the resulting Account, Contact and Deal IDs',
+      parameters: z.object({
+        connection: connectionParam,
+        lead_id: z.string().describe('ID of the lead to convert'),
+        account_id: z.string().optional().describe('Existing Account to attach the lead to (a new Account is created otherwise)'),
+        contact_id: z.string().optional().describe('Existing Contact to attach the lead to (a new Contact is created otherwise)'),
+        overwrite: z.boolean().optional().describe('Overwrite the existing Account/Contact fields with the lead\'s values'),
+        notify_lead_owner: z.boolean().optional().describe('Notify the lead owner by email'),
+        notify_new_entity_owner: z.boolean().optional().describe('Notify the owner of the new records by email'),
+        assign_to: z.string().optional().describe('User ID to own the resulting records'),
+        deal: z.object({
+          Deal_Name: z.string().describe('Deal name'),
+          Stage: z.string().describe('Deal stage (e.g., Qualification)'),
+          Closing_Date: z.string().describe('Closing date (YYYY-MM-DD)'),
+          Amount: z.number().optional().describe('Deal amount'),
+          Pipeline: z.string().optional().describe('Pipeline name, when the layout uses pipelines')
+        }).passthrough().optional().describe('Create a Deal as part of the conversion')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).convertLead(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add delete_record tool
+    server.addTool({
+      name: 'delete_record',
+      description: 'Delete a specific record by ID from any Zoho CRM module (moves it to the recycle bin)',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module API name or label (e.g., Leads, Contacts, Deals, "Sales Orders")'),
+        record_id: z.string().describe('Record ID to delete'),
+        wf_trigger: z.boolean().default(true).describe('Whether to run workflow rules on delete')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).deleteRecord(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add list_notes tool
+    server.addTool({
+      name: 'list_notes',
+      description: 'List the notes attached to a record, with their owner and timestamps',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module of the parent record (e.g., Deals, Contacts)'),
+        record_id: z.string().describe('Parent record ID'),
+        page: z.number().int().min(1).default(1).describe('Page number for pagination'),
+        per_page: z.number().int().min(1).max(200).default(25).describe('Number of notes per page (max 200)')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).listNotes(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add add_note tool
+    server.addTool({
+      name: 'add_note',
+      description: 'Add a note to a record, e.g. to log a call summary on a Deal or Contact. Returns the saved note',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module of the parent record (e.g., Deals, Contacts)'),
+        record_id: z.string().describe('Parent record ID'),
+        title: z.string().optional().describe('Note title'),
+        content: z.string().min(1).describe('Note body. Line breaks are kept')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).addNote(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add update_note tool
+    server.addTool({
+      name: 'update_note',
+      description: 'Update the title and/or content of a note on a record. Returns the saved note',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module of the parent record (e.g., Deals, Contacts)'),
+        record_id: z.string().describe('Parent record ID'),
+        note_id: z.string().describe('Note ID to update'),
+        title: z.string().optional().describe('New note title'),
+        content: z.string().optional().describe('New note body')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).updateNote(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add delete_note tool
+    server.addTool({
+      name: 'delete_note',
+      description: 'Delete a note from a record',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module of the parent record (e.g., Deals, Contacts)'),
+        record_id: z.string().describe('Parent record ID'),
+        note_id: z.string().describe('Note ID to delete')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).deleteNote(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add list_attachments tool
+    server.addTool({
+      name: 'list_attachments',
+      description: 'List the attachments (files and links) of a record',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module of the parent record (e.g., Deals, Accounts)'),
+        record_id: z.string().describe('Parent record ID'),
+        page: z.number().int().min(1).default(1).describe('Page number for pagination'),
+        per_page: z.number().int().min(1).max(200).default(25).describe('Number of attachments per page (max 200)')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).listAttachments(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add upload_attachment tool
+    server.addTool({
+      name: 'upload_attachment',
+      description: 'Attach a file (base64 content or a local path inside the server\'s upload directory) or a URL link to a record',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module of the parent record (e.g., Deals, Accounts)'),
+        record_id: z.string().describe('Parent record ID'),
+        content_base64: z.string().optional().describe('File content encoded as base64 (requires file_name)'),
+        file_path: z.string().optional().describe('Path of a file inside ATTACHMENT_UPLOAD_DIR on the server'),
+        file_name: z.string().optional().describe('File name to store in Zoho'),
+        url: z.string().url().optional().describe('URL to attach as a link instead of a file'),
+        title: z.string().optional().describe('Title of a URL attachment')
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).uploadAttachment(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add download_attachment tool
+    server.addTool({
+      name: 'download_attachment',
+      description: `Download the content of a record's attachment (up to ${config.attachments.maxDownloadBytes} bytes) as an embedded MCP resource or as base64`,
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module of the parent record (e.g., Deals, Accounts)'),
+        record_id: z.string().describe('Parent record ID'),
+        attachment_id: z.string().describe('Attachment ID (from list_attachments)'),
+        format: z.enum(['resource', 'base64']).default('resource').describe('Return an embedded resource or a JSON object with base64 content')
+      }),
+      execute: async (params, { session }) => {
+        const { content, ...metadata } = await userRegistry.getClient(session, params.connection).downloadAttachment(params);
+
+        if (params.format === 'base64') {
+          return JSON.stringify({ ...metadata, content_base64: content.toString('base64') }, null, 2);
         }
+
+        return {
+          content: [
+            { type: 'text' as const, text: JSON.stringify(metadata, null, 2) },
+            {
+              type: 'resource' as const,
+              resource: {
+                uri: `zcrm://${params.module}/${params.record_id}/Attachments/${params.attachment_id}`,
+                mimeType: metadata.content_type,
+                blob: content.toString('base64'),
+              },
+            },
+          ],
+        };
       }
     });
 
@@ -262,15 +875,13 @@ All API responses include comprehensive data with proper error handling.
       name: 'list_modules',
       description: 'List all available Zoho CRM modules',
       parameters: z.object({
-        type: z.enum(['all', 'custom', 'standard']).default('all').describe('Type of modules to list')
+        connection: connectionParam,
+        type: z.enum(['all', 'custom', 'standard']).default('all').describe('Type of modules to list'),
+        fresh: freshParam
       }),
-      execute: async (params) => {
-        try {
-          const result = await zohoCRMClient.listModules(params);
-          return JSON.stringify(result, null, 2);
-        } catch (error) {
-          return `List modules failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-        }
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).listModules(params);
+        return JSON.stringify(result, null, 2);
       }
     });
 
@@ -279,15 +890,86 @@ All API responses include comprehensive data with proper error handling.
       name: 'get_module_fields',
       description: 'Get field metadata for a specific CRM module',
       parameters: z.object({
-        module: z.string().describe('CRM module name (e.g., Leads, Contacts, Accounts, Deals)')
+        connection: connectionParam,
+        module: z.string().describe('CRM module API name or label (e.g., Leads, Contacts, Deals, "Sales Orders")'),
+        fresh: freshParam
       }),
-      execute: async (params) => {
-        try {
-          const result = await zohoCRMClient.getModuleFields(params as any);
-          return JSON.stringify(result, null, 2);
-        } catch (error) {
-          return `Get module fields failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-        }
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).getModuleFields(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add get_module_layouts tool
+    server.addTool({
+      name: 'get_module_layouts',
+      description: 'Get the layouts of a specific CRM module, with their sections, fields and the profiles they apply to',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().describe('CRM module API name or label (e.g., Leads, Contacts, Deals, "Sales Orders")'),
+        fresh: freshParam
+      }),
+      execute: async (params, { session }) => {
+        const result = await userRegistry.getClient(session, params.connection).getModuleLayouts(params);
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add invalidate_metadata_cache tool
+    server.addTool({
+      name: 'invalidate_metadata_cache',
+      description: 'Drop cached module, field, layout and related list metadata, e.g. after fields were added or changed in Zoho CRM',
+      parameters: z.object({
+        connection: connectionParam,
+        module: z.string().optional().describe('Only drop the metadata of this module')
+      }),
+      execute: async (params, { session }) => {
+        const crmClient = userRegistry.getClient(session, params.connection);
+        // Cache keys use API names; the module list is reloaded so a module added in Zoho resolves too
+        const module = params.module && resolveModuleName(params.module, await crmClient.listModules({ fresh: true }));
+        const dropped = invalidateMetadataCache(crmClient.connectionName, module);
+        return JSON.stringify({ connection: crmClient.connectionName, module: module ?? null, dropped_entries: dropped }, null, 2);
+      }
+    });
+
+    // Add list_connections tool
+    server.addTool({
+      name: 'list_connections',
+      description: 'List the Zoho CRM connections (organizations) this server can use, with their region and auth status',
+      parameters: z.object({}),
+      execute: async () => {
+        const result = await connectionRegistry.getStatuses();
+        return JSON.stringify(result, null, 2);
+      }
+    });
+
+    // Add get_current_user tool
+    server.addTool({
+      name: 'get_current_user',
+      description: 'Show which Zoho user this session acts as: the linked user of a personal access key, or the connection\'s shared account',
+      parameters: z.object({}),
+      execute: async (_params, { session }) => {
+        const user = session?.user_id ? userRegistry.getUser(session.user_id) : undefined;
+        const result = user
+          ? {
+              mode: config.userAuth.mode,
+              authenticated: true,
+              connection: user.connection,
+              zoho_user_id: user.zoho_user_id,
+              email: user.email,
+              name: user.name,
+              linked_at: user.linked_at,
+              zoho_token: userRegistry.getClient(session).getTokenStatus(),
+            }
+          : {
+              mode: config.userAuth.mode,
+              authenticated: !!session,
+              ...(session ? { auth_method: session.method, subject: session.subject } : {}),
+              message: config.userAuth.mode === 'disabled'
+                ? 'Per-user access is disabled; CRM actions use each connection\'s shared account'
+                : 'No personal access key; CRM actions use each connection\'s shared account. Link yours at /oauth/authorize?mode=user',
+            };
+        return JSON.stringify(result, null, 2);
       }
     });
 
@@ -295,49 +977,295 @@ All API responses include comprehensive data with proper error handling.
     server.addTool({
       name: 'health_check',
       description: 'Check the health status of the server and Zoho CRM API connection',
-      parameters: z.object({}),
-      execute: async () => {
-        try {
-          const startTime = Date.now();
-          
-          // Test Zoho CRM API connection
-          const crmTest = await zohoCRMClient.testConnection();
-          
-          // Check memory usage
-          const memoryUsage = process.memoryUsage();
-          const memoryUsageMB = memoryUsage.heapUsed / 1024 / 1024;
-          
-          const duration = Date.now() - startTime;
-          
-          const healthData = {
-            status: crmTest.success ? 'healthy' : 'unhealthy',
-            timestamp: new Date().toISOString(),
-            uptime: process.uptime(),
-            version: '1.0.0',
-            memory_usage_mb: Math.round(memoryUsageMB * 100) / 100,
-            response_time_ms: duration,
-            zoho_crm_api: crmTest.success ? 'ok' : 'error',
-            zoho_message: crmTest.success 
-              ? 'API connection successful'
-              : (crmTest.error || 'API connection failed'),
-          };
-
-          return JSON.stringify(healthData, null, 2);
-        } catch (error) {
-          return `Health check failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      parameters: z.object({
+        connection: connectionParam
+      }),
+      execute: async (params, { session }) => {
+        const startTime = Date.now();
+        
+        // Test Zoho CRM API connection
+        const crmClient = userRegistry.getClient(session, params.connection);
+        const crmTest = await crmClient.testConnection();
+        
+        // Check memory usage
+        const memoryUsage = process.memoryUsage();
+        const memoryUsageMB = memoryUsage.heapUsed / 1024 / 1024;
+        
+        const duration = Date.now() - startTime;
+        
+        const healthData = {
+          status: crmTest.success ? 'healthy' : 'unhealthy',
+          timestamp: new Date().toISOString(),
+          uptime: process.uptime(),
+          version: '1.0.0',
+          memory_usage_mb: Math.round(memoryUsageMB * 100) / 100,
+          response_time_ms: duration,
+          zoho_crm_api: crmTest.success ? 'ok' : 'error',
+          zoho_message: crmTest.success 
+            ? 'API connection successful'
+            : (crmTest.error || 'API connection failed'),
+          connection: crmClient.connectionName,
+          zoho_token: crmClient.getTokenStatus(),
+          zoho_api_limits: crmClient.getRateLimitStatus(),
+        };
+
+        return JSON.stringify(healthData, null, 2);
+      }
+    });
+
+    // Resources let clients attach module schemas and records to a conversation without a tool call.
+    // They read from the session's default connection.
+
+    // Add modules resource
+    server.addResource({
+      uri: 'zcrm://modules',
+      name: 'CRM modules',
+      description: 'All Zoho CRM modules with their API names and labels',
+      mimeType: 'application/json',
+      load: async (session) => {
+        const modules = await userRegistry.getClient(session).listModules();
+        return { text: JSON.stringify(modules, null, 2) };
+      }
+    });
+
+    // Add field resource template (before the module fields and record templates, which would also match its URIs)
+    server.addResourceTemplate({
+      uriTemplate: 'zcrm://modules/{module}/fields/{field}',
+      name: 'CRM field',
+      description: 'Metadata of one field of a Zoho CRM module: data type, picklist values, lookup and whether it is required',
+      mimeType: 'application/json',
+      arguments: [
+        {
+          name: 'module',
+          description: 'CRM module API name (e.g., Leads, Contacts, Accounts, Deals)',
+          required: true,
+          complete: (value, session) => completeModuleName(userRegistry.getClient(isSessionAuth(session) ? session : undefined), value),
+        },
+        {
+          name: 'field',
+          description: 'Field API name or label (e.g., Email, Stage)',
+          required: true,
+          complete: (value, session) => completeFieldName(userRegistry.getClient(isSessionAuth(session) ? session : undefined), completionArgument('module'), value),
+        },
+      ],
+      load: async ({ module, field }, session) => {
+        const fields = await userRegistry.getClient(session).getModuleFields({ module: module as CRMModule });
+        const [apiName] = resolveFieldNames(module, [field], fields);
+        const metadata = fields.find((candidate) => candidate.api_name === apiName);
+        if (!metadata) {
+          throw new InvalidFieldError(`Field "${field}" has no metadata in ${module}`, { module, field });
         }
+        return { text: JSON.stringify(metadata, null, 2) };
+      }
+    });
+
+    // Add module fields resource template (before the record template, which would also match its URIs)
+    server.addResourceTemplate({
+      uriTemplate: 'zcrm://modules/{module}/fields',
+      name: 'CRM module fields',
+      description: 'Field schema of a Zoho CRM module: API names, data types, picklist values and lookups',
+      mimeType: 'application/json',
+      arguments: [
+        {
+          name: 'module',
+          description: 'CRM module API name (e.g., Leads, Contacts, Accounts, Deals)',
+          required: true,
+          complete: (value, session) => completeModuleName(userRegistry.getClient(isSessionAuth(session) ? session : undefined), value),
+        },
+      ],
+      load: async ({ module }, session) => {
+        const fields = await userRegistry.getClient(session).getModuleFields({ module: module as CRMModule });
+        return { text: JSON.stringify(fields, null, 2) };
+      }
+    });
+
+    // Add record resource template
+    server.addResourceTemplate({
+      uriTemplate: 'zcrm://{module}/{id}',
+      name: 'CRM record',
+      description: 'A single Zoho CRM record, e.g. zcrm://Deals/4876876000000123456',
+      mimeType: 'application/json',
+      arguments: [
+        {
+          name: 'module',
+          description: 'CRM module API name (e.g., Leads, Contacts, Accounts, Deals)',
+          required: true,
+          complete: (value, session) => completeModuleName(userRegistry.getClient(isSessionAuth(session) ? session : undefined), value),
+        },
+        {
+          name: 'id',
+          description: 'Record ID',
+          required: true,
+        },
+      ],
+      load: async ({ module, id }, session) => {
+        const record = await userRegistry.getClient(session).getRecord({ module: module as CRMModule, record_id: id });
+        return { text: JSON.stringify(record, null, 2) };
+      }
+    });
+
+    // Prompts start common CRM workflows with the relevant records already loaded
+
+    // Add qualify_lead prompt
+    server.addPrompt({
+      name: 'qualify_lead',
+      description: 'Qualify a lead: review its details and notes, assess fit and recommend the next step',
+      arguments: [
+        { name: 'lead_id', description: 'ID of the lead to qualify', required: true },
+      ],
+      load: async ({ lead_id }, session) => {
+        const leadId = requireRecordId(lead_id, 'lead_id');
+        const crmClient = userRegistry.getClient(session);
+        const context = await Promise.all([
+          contextSection('Lead', () => crmClient.getRecord({ module: 'Leads', record_id: leadId })),
+          contextSection('Notes', async () => (await crmClient.listNotes({ module: 'Leads', record_id: leadId, per_page: 20 })).records),
+        ]);
+
+        return `Qualify the Zoho CRM lead ${leadId}.
+
+${context.join('\n\n')}
+
+1. Summarize who the lead is and how they reached us (Lead_Source, Company, Title).
+2. Assess budget, authority, need and timeline from the fields and notes, and say what is still unknown.
+3. Recommend a Lead_Status and a next step: nurture, disqualify, or convert with convert_lead.
+4. Ask before changing anything; then use update_record or convert_lead, and add_note to record the reasoning.`;
+      }
+    });
+
+    // Add meeting_prep prompt
+    server.addPrompt({
+      name: 'meeting_prep',
+      description: 'Prepare for a meeting with an account: contacts, open deals, recent notes and talking points',
+      arguments: [
+        { name: 'account_id', description: 'ID of the account you are meeting', required: true },
+        { name: 'meeting_date', description: 'Date of the meeting (YYYY-MM-DD), defaults to today' },
+        { name: 'goal', description: 'What you want to get out of the meeting' },
+      ],
+      load: async ({ account_id, meeting_date, goal }, session) => {
+        const accountId = requireRecordId(account_id, 'account_id');
+        const meetingDate = dateArgument(meeting_date, 'meeting_date', new Date());
+        const crmClient = userRegistry.getClient(session);
+        const related = (relatedList: string, fields: string[]) => async () =>
+          (await crmClient.listRelatedRecords({ module: 'Accounts', record_id: accountId, related_list: relatedList, fields, per_page: 50 })).records;
+
+        const context = await Promise.all([
+          contextSection('Account', () => crmClient.getRecord({ module: 'Accounts', record_id: accountId })),
+          contextSection('Contacts', related('Contacts', ['Full_Name', 'Title', 'Email', 'Phone'])),
+          contextSection('Deals', related('Deals', ['Deal_Name', 'Stage', 'Amount', 'Closing_Date', 'Owner'])),
+          contextSection('Recent notes', async () => (await crmClient.listNotes({ module: 'Accounts', record_id: accountId, per_page: 10 })).records),
+        ]);
+
+        return `Prepare me for a meeting on ${meetingDate} with Zoho CRM account ${accountId}.${goal ? ` My goal: ${goal}.` : ''}
+
+${context.join('\n\n')}
+
+Write a one-page briefing:
+1. The account at a glance and our history with it.
+2. Who we are likely to meet and their roles.
+3. Open deals, their stage, value and risks.
+4. Open questions and three talking points${goal ? ' that serve the goal' : ''}.
+Flag anything that looks stale, such as deals past their closing date.`;
+      }
+    });
+
+    // Add weekly_pipeline_review prompt
+    server.addPrompt({
+      name: 'weekly_pipeline_review',
+      description: 'Review the deal pipeline: deals changed in a date range and deals closing soon, optionally for one owner',
+      arguments: [
+        { name: 'owner_id', description: 'Zoho user ID of the deal owner, defaults to all owners' },
+        { name: 'from_date', description: 'Start of the review period (YYYY-MM-DD), defaults to 7 days ago' },
+        { name: 'to_date', description: 'End of the review period (YYYY-MM-DD), defaults to today' },
+        {
+          name: 'stage',
+          description: 'Only review deals in this stage, defaults to all stages',
+          complete: (value, session) => completePicklistValue(userRegistry.getClient(session), 'Deals', 'Stage', value),
+        },
+      ],
+      load: async ({ owner_id, from_date, to_date, stage }, session) => {
+        const today = new Date();
+        const fromDate = dateArgument(from_date, 'from_date', new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000));
+        const toDate = dateArgument(to_date, 'to_date', today);
+        const closingBy = new Date(today.getTime() + 14 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        const ownerFilter = owner_id ? ` and Owner = '${requireRecordId(owner_id, 'owner_id')}'` : '';
+        const stageFilter = stage ? ` and Stage = '${stage.replace(/'/g, "\\'")}'` : '';
+        const fields = 'Deal_Name, Stage, Amount, Closing_Date, Probability, Account_Name, Owner, Modified_Time';
+        const crmClient = userRegistry.getClient(session);
+
+        const context = await Promise.all([
+          contextSection(`Deals changed between ${fromDate} and ${toDate}`, async () => (await crmClient.executeCoql({
+            query: `select ${fields} from Deals where (Modified_Time between '${fromDate}T00:00:00+00:00' and '${toDate}T23:59:59+00:00')${ownerFilter}${stageFilter} order by Amount desc`,
+            limit: 200,
+          })).rows),
+          contextSection(`Open deals closing by ${closingBy}`, async () => (await crmClient.executeCoql({
+            query: `select ${fields} from Deals where (Closing_Date <= '${closingBy}' and Stage not in ('Closed Won', 'Closed Lost'))${ownerFilter}${stageFilter} order by Closing_Date asc`,
+            limit: 200,
+          })).rows),
+        ]);
+
+        return `Run a weekly pipeline review${owner_id ? ` for owner ${owner_id}` : ''}${stage ? ` of deals in ${stage}` : ''} covering ${fromDate} to ${toDate}.
+
+${context.join('\n\n')}
+
+1. Summarize the movement: deals won, lost, advanced and newly created, with totals.
+2. List open deals closing in the next two weeks and whether they look on track.
+3. Call out risks: deals past their closing date, stalled stages, missing amounts or next steps.
+4. Suggest up to five actions for the coming week.`;
+      }
+    });
+
+    // Add log_call prompt
+    server.addPrompt({
+      name: 'log_call',
+      description: 'Log a call against a lead, contact, account or deal, and capture follow-ups',
+      arguments: [
+        { name: 'record_id', description: 'ID of the record the call was with or about', required: true },
+        { name: 'module', description: 'Module of the record', enum: ['Contacts', 'Leads', 'Accounts', 'Deals'] },
+        { name: 'summary', description: 'What was discussed' },
+      ],
+      load: async ({ record_id, module = 'Contacts', summary }, session) => {
+        const recordId = requireRecordId(record_id, 'record_id');
+        const crmClient = userRegistry.getClient(session);
+        const context = await Promise.all([
+          contextSection(module.replace(/s$/, ''), () => crmClient.getRecord({ module: module as CRMModule, record_id: recordId })),
+          contextSection('Required Calls fields', async () => (await crmClient.getModuleFields({ module: 'Calls' }))
+            .filter((field) => field.system_mandatory || field.required)
+            .map((field) => ({ api_name: field.api_name, data_type: field.data_type, pick_list_values: field.pick_list_values }))),
+        ]);
+        const link = module === 'Contacts'
+          ? `Who_Id: {"id": "${recordId}"}`
+          : `What_Id: {"id": "${recordId}"} and "$se_module": "${module}"`;
+
+        return `Log a call with Zoho CRM ${module} record ${recordId}.${summary ? `\n\nCall summary: ${summary}` : ''}
+
+${context.join('\n\n')}
+
+1. ${summary ? 'From the summary' : 'Ask me what was discussed, then'} draft the call: Subject, Call_Type, Call_Start_Time, Call_Duration and Description.
+2. Create it with create_record in the Calls module, linked with ${link}.
+3. Extract follow-ups and offer to create them as Tasks linked to the same record.
+4. Suggest field updates on the record (e.g. Lead_Status or Stage) if the call changed anything, and ask before applying them.`;
       }
     });
 
     // Handle server events
     server.on('connect', (event) => {
       logger.info('Client connected', { sessionId: event.session });
+      metrics.sessionConnected();
+      // Field completion reads the module chosen in the same request
+      if (event.session.server.transport) {
+        trackCompletionContext(event.session.server.transport);
+      }
     });
 
     server.on('disconnect', (event) => {
       logger.info('Client disconnected', { sessionId: event.session });
+      metrics.sessionDisconnected();
     });
 
+    if (config.monitoring.enabled) {
+      metrics.startServer();
+    }
+
     // Start the server
     const port = config.server.port;
     
@@ -364,6 +1292,9 @@ All API responses include comprehensive data with proper error handling.
 // Handle graceful shutdown
 const shutdown = async () => {
   logger.info('Shutting down server...');
+  connectionRegistry.stopTokenRenewal();
+  userRegistry.stopTokenRenewal();
+  await tracing.shutdown();
   process.exit(0);
 };
 
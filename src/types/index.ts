@@ -11,7 +11,36 @@ export interface EnvironmentConfig {
   ZOHO_ACCESS_TOKEN?: string;
   ZOHO_TOKEN_EXPIRES_AT?: string;
   ZOHO_REGION: string;
-  ZOHO_API_BASE_URL: string;
+  ZOHO_API_BASE_URL?: string;
+  ZOHO_REDIRECT_URI?: string;
+  ZOHO_SCOPES: string;
+  OAUTH_STATE_SECRET?: string;
+
+  // Token Storage
+  TOKEN_STORE: 'file' | 'memory' | 'sqlite';
+  TOKEN_STORE_PATH?: string;
+
+  // Multi-Organization Connections
+  ZOHO_CONNECTIONS?: string;
+  ZOHO_CONNECTIONS_FILE: string;
+
+  // Per-User OAuth
+  USER_AUTH_MODE: UserAuthMode;
+  USERS_FILE: string;
+
+  // MCP Endpoint Authentication
+  MCP_AUTH_MODE: McpAuthMode;
+  API_KEYS_FILE: string;
+  MCP_OAUTH_ISSUER?: string;
+  MCP_OAUTH_INTROSPECTION_URL?: string;
+  MCP_OAUTH_CLIENT_ID?: string;
+  MCP_OAUTH_CLIENT_SECRET?: string;
+  MCP_OAUTH_RESOURCE?: string;
+  MCP_OAUTH_SCOPES?: string;
+
+  // Admin Credentials
+  ADMIN_USERNAME: string;
+  ADMIN_PASSWORD?: string;
 
   // Server Configuration
   NODE_ENV: 'development' | 'production' | 'test';
@@ -33,6 +62,8 @@ export interface EnvironmentConfig {
   // Rate Limiting
   RATE_LIMIT_WINDOW_MS: number;
   RATE_LIMIT_MAX_REQUESTS: number;
+  RATE_LIMIT_MAX_CONCURRENT: number;
+  RATE_LIMIT_MAX_RETRIES: number;
 
   // Health Check Configuration
   HEALTH_CHECK_INTERVAL: number;
@@ -43,9 +74,23 @@ export interface EnvironmentConfig {
   SSL_CERT_PATH?: string;
   SSL_KEY_PATH?: string;
 
+  // Attachments
+  ATTACHMENT_MAX_UPLOAD_BYTES: number;
+  ATTACHMENT_MAX_DOWNLOAD_BYTES: number;
+  ATTACHMENT_UPLOAD_DIR?: string;
+  METADATA_CACHE_TTL_MS: number;
+  METADATA_CACHE_FILE?: string;
+  METADATA_CACHE_WARMUP: boolean;
+  METADATA_CACHE_WARMUP_MODULES: string;
+
   // Monitoring
   ENABLE_METRICS: boolean;
   METRICS_PORT: number;
+  METRICS_HOST: string;
+  TRACING_EXPORTER: 'none' | 'otlp' | 'file' | 'console';
+  TRACING_FILE: string;
+  OTEL_EXPORTER_OTLP_ENDPOINT?: string;
+  OTEL_SERVICE_NAME: string;
 }
 
 // ===== Zoho CRM API Types =====
@@ -54,8 +99,152 @@ export interface ZohoAuthTokens {
   refresh_token: string;
   expires_in: number;
   token_type: string;
+  /** API domain of the data center holding the user's organization */
+  api_domain?: string;
+  /** Accounts server that issued the tokens (added by the OAuth handler, not sent by Zoho) */
+  accounts_server?: string;
+}
+
+/**
+ * Credentials and endpoints of one Zoho CRM organization
+ */
+export interface ZohoConnectionConfig {
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  region: string;
+  baseUrl: string;
+  accountsUrl: string;
+  refreshToken?: string;
+}
+
+export interface ConnectionStatus {
+  name: string;
+  region: string;
+  base_url: string;
+  token_store: TokenStore['kind'];
+  authorized: boolean;
+  has_refresh_token: boolean;
+  access_token_expires_at: string | null;
+  last_refresh_error: string | null;
+}
+
+export interface StoredTokens {
+  access_token?: string;
+  refresh_token?: string;
+  expires_at?: string;
+  created_at?: string;
+  token_type?: string;
+  api_domain?: string;
+  accounts_server?: string;
+}
+
+export interface TokenHealthStatus {
+  last_refresh_at: string | null;
+  last_refresh_error: string | null;
+  last_refresh_error_at: string | null;
+  consecutive_failures: number;
+  next_renewal_at: string | null;
+}
+
+/**
+ * API limits Zoho reported in the latest response headers of a connection
+ */
+export interface ApiCreditStatus {
+  limit: number | null;
+  remaining: number | null;
+  reset_at: string | null;
+  updated_at: string | null;
+}
+
+export interface RequestSchedulerStatus {
+  active_requests: number;
+  queued_requests: number;
+  max_concurrent: number;
+  available_tokens: number;
+  paused_until: string | null;
+  throttled_responses: number;
+  retried_requests: number;
+  api_credits: ApiCreditStatus;
+}
+
+export type TokenStoreListener = (tokens: StoredTokens | null) => void;
+
+/**
+ * Persistence for OAuth tokens, shared by the API client and the OAuth handler
+ */
+export interface TokenStore {
+  readonly kind: 'file' | 'memory' | 'sqlite';
+  load(): Promise<StoredTokens | null>;
+  save(tokens: StoredTokens): Promise<void>;
+  clear(): Promise<void>;
+  onChange(listener: TokenStoreListener): () => void;
+}
+
+/**
+ * Whether MCP sessions identify their caller with a personal access key:
+ * disabled (everyone shares the connection's token), optional (linked users act
+ * as themselves, others fall back to the shared token) or required
+ */
+export type UserAuthMode = 'disabled' | 'optional' | 'required';
+
+/**
+ * The Zoho user who authorized an OAuth grant
+ */
+export interface ZohoUserProfile {
+  id: string;
+  email: string;
+  full_name: string;
 }
 
+/**
+ * A person who linked their own Zoho account through /oauth/authorize?mode=user
+ */
+export interface LinkedUser {
+  id: string;
+  connection: string;
+  zoho_user_id: string;
+  email: string;
+  name: string;
+  token_store_key: string;
+  access_key_hash: string;
+  linked_at: string;
+  updated_at: string;
+}
+
+/**
+ * Credentials the MCP endpoint accepts besides personal access keys
+ */
+export type McpAuthMode = 'none' | 'api_key' | 'oauth' | 'api_key_or_oauth';
+
+/**
+ * A locally managed API key for the MCP endpoint. Only the key's hash is stored.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  key_hash: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'key_hash'>;
+
+/**
+ * Identity attached to an MCP session by the authenticate hook.
+ * Only personal access keys (method user_key) carry a linked Zoho user.
+ */
+export type McpSessionAuth = {
+  method: 'user_key' | 'api_key' | 'oauth';
+  subject: string;
+  user_id?: string;
+  connection?: string;
+  email?: string;
+  name?: string;
+  scopes?: string[];
+} | undefined;
+
 export interface ZohoApiError {
   code: number;
   message: string;
@@ -71,30 +260,56 @@ export interface ZohoApiResponse<T = unknown> {
     page?: number;
     per_page?: number;
     more_records?: boolean;
+    next_page_token?: string | null;
   };
 }
 
 // ===== CRM Module Types =====
+// Standard modules, or the API name of a custom module
 export type CRMModule = 
   | 'Leads' | 'Contacts' | 'Accounts' | 'Deals' | 'Tasks' | 'Calls' | 'Meetings' | 'Events'
   | 'Products' | 'Quotes' | 'Sales_Orders' | 'Purchase_Orders' | 'Invoices'
-  | 'Vendors' | 'Price_Books' | 'Campaigns' | 'Cases' | 'Solutions' | 'Notes';
+  | 'Vendors' | 'Price_Books' | 'Campaigns' | 'Cases' | 'Solutions' | 'Notes'
+  | (string & {});
 
 // ===== Common Types =====
 export type SortOrder = 'asc' | 'desc';
 
 export interface PaginationParams {
-  page?: number;
-  per_page?: number;
-  sort_by?: string;
-  sort_order?: SortOrder;
+  page?: number | undefined;
+  per_page?: number | undefined;
+  sort_by?: string | undefined;
+  sort_order?: SortOrder | undefined;
 }
 
 export interface SearchCriteria {
-  criteria?: string;
-  fields?: string[];
+  criteria?: string | CriteriaNode | undefined;
+  email?: string | undefined;
+  phone?: string | undefined;
+  word?: string | undefined;
+  fields?: string[] | undefined;
+}
+
+// ===== Criteria Builder Types =====
+export type CriteriaOperator =
+  | 'equals' | 'not_equal' | 'starts_with' | 'in' | 'not_in'
+  | 'greater_than' | 'greater_equal' | 'less_than' | 'less_equal' | 'between';
+
+export type CriteriaValue = string | number | boolean | null;
+
+export interface CriteriaCondition {
+  field: string;
+  operator: CriteriaOperator;
+  value: CriteriaValue | CriteriaValue[];
 }
 
+export interface CriteriaGroup {
+  group_operator: 'and' | 'or';
+  group: CriteriaNode[];
+}
+
+export type CriteriaNode = CriteriaCondition | CriteriaGroup;
+
 // ===== CRM Record Types =====
 export interface CRMRecord {
   id: string;
@@ -108,6 +323,10 @@ export interface CRMRecordList {
     page: number;
     per_page: number;
     more_records: boolean;
+    next_page_token?: string;
+    pages_fetched?: number;
+    truncated?: boolean;
+    truncated_reason?: 'max_records' | 'search_limit' | 'page_limit';
   };
 }
 
@@ -532,6 +751,43 @@ export interface Note {
   [key: string]: unknown;
 }
 
+// ===== Record Action Types =====
+export interface CRMActionResult {
+  code: string;
+  details: {
+    id?: string;
+    api_name?: string;
+    Created_Time?: string;
+    Modified_Time?: string;
+    Created_By?: {
+      name: string;
+      id: string;
+    };
+    Modified_By?: {
+      name: string;
+      id: string;
+    };
+    [key: string]: unknown;
+  };
+  message: string;
+  status: 'success' | 'error';
+}
+
+export interface CRMUpsertActionResult extends CRMActionResult {
+  action?: 'insert' | 'update';
+  duplicate_field?: string | null;
+}
+
+export interface UpsertRecordResult {
+  index: number;
+  outcome: 'inserted' | 'updated' | 'rejected';
+  id?: string;
+  duplicate_field?: string | null;
+  code: string;
+  message: string;
+  details: CRMActionResult['details'];
+}
+
 // ===== Module Metadata Types =====
 export interface CRMModuleInfo {
   api_name: string;
@@ -590,23 +846,221 @@ export interface CRMFieldInfo {
   [key: string]: unknown;
 }
 
+export interface CRMLayoutInfo {
+  id: string;
+  name: string;
+  display_label?: string;
+  status?: string;
+  visible?: boolean;
+  profiles?: Array<{
+    name: string;
+    id: string;
+    default?: boolean;
+  }>;
+  sections?: Array<{
+    display_label: string;
+    api_name?: string;
+    sequence_number: number;
+    fields: Array<{
+      api_name: string;
+      display_label?: string;
+      required?: boolean;
+      [key: string]: unknown;
+    }>;
+    [key: string]: unknown;
+  }>;
+  [key: string]: unknown;
+}
+
+export interface CRMRelatedListInfo {
+  id: string;
+  api_name: string;
+  display_label: string;
+  name: string;
+  type: string;
+  href: string | null;
+  visible: boolean;
+  sequence_number: string | number;
+  module: {
+    api_name: string;
+    id: string;
+  } | null;
+  [key: string]: unknown;
+}
+
 // ===== Search Parameters =====
 export interface SearchRecordsParams extends PaginationParams, SearchCriteria {
   module: CRMModule;
+  page_token?: string | undefined;
+  auto_paginate?: boolean | undefined;
+  max_records?: number | undefined;
 }
 
 export interface GetRecordParams {
   module: CRMModule;
   record_id: string;
-  fields?: string[];
+  fields?: string[] | undefined;
+}
+
+export type WorkflowTrigger = 'workflow' | 'approval' | 'blueprint';
+
+export interface CreateRecordParams {
+  module: CRMModule;
+  data: Array<Record<string, unknown>>;
+  trigger?: WorkflowTrigger[] | undefined;
+}
+
+export interface UpdateRecordParams {
+  module: CRMModule;
+  record_id: string;
+  data: Record<string, unknown>;
+  trigger?: WorkflowTrigger[] | undefined;
+}
+
+export interface UpsertRecordsParams {
+  module: CRMModule;
+  data: Array<Record<string, unknown>>;
+  duplicate_check_fields?: string[] | undefined;
+  trigger?: WorkflowTrigger[] | undefined;
+}
+
+export interface ConvertLeadParams {
+  lead_id: string;
+  account_id?: string | undefined;
+  contact_id?: string | undefined;
+  overwrite?: boolean | undefined;
+  notify_lead_owner?: boolean | undefined;
+  notify_new_entity_owner?: boolean | undefined;
+  assign_to?: string | undefined;
+  deal?: {
+    Deal_Name: string;
+    Stage: string;
+    Closing_Date: string;
+    Amount?: number | undefined;
+    Pipeline?: string | undefined;
+    [key: string]: unknown;
+  } | undefined;
+}
+
+export interface ConvertLeadResult {
+  lead_id: string;
+  account_id: string | null;
+  contact_id: string | null;
+  deal_id: string | null;
+}
+
+export interface DeleteRecordParams {
+  module: CRMModule;
+  record_id: string;
+  wf_trigger?: boolean;
+}
+
+export interface CoqlQueryParams {
+  query: string;
+  limit?: number;
+  offset?: number;
+  validate?: boolean;
+}
+
+export interface CoqlQueryResult {
+  rows: Array<Record<string, unknown>>;
+  info: {
+    count: number;
+    more_records: boolean;
+    limit?: number;
+    offset?: number;
+    next_offset?: number;
+  };
+}
+
+export interface GetRelatedListsParams {
+  module: CRMModule;
+  fresh?: boolean;
+}
+
+export interface ListRelatedRecordsParams extends PaginationParams {
+  module: CRMModule;
+  record_id: string;
+  related_list: string;
+  fields?: string[] | undefined;
+  page_token?: string | undefined;
+}
+
+export interface ListNotesParams {
+  module: CRMModule;
+  record_id: string;
+  page?: number;
+  per_page?: number;
 }
 
+export interface AddNoteParams {
+  module: CRMModule;
+  record_id: string;
+  title?: string | undefined;
+  content: string;
+}
+
+export interface UpdateNoteParams {
+  module: CRMModule;
+  record_id: string;
+  note_id: string;
+  title?: string | undefined;
+  content?: string | undefined;
+}
+
+export interface DeleteNoteParams {
+  module: CRMModule;
+  record_id: string;
+  note_id: string;
+}
+
+export interface ListAttachmentsParams {
+  module: CRMModule;
+  record_id: string;
+  page?: number;
+  per_page?: number;
+}
+
+export interface UploadAttachmentParams {
+  module: CRMModule;
+  record_id: string;
+  file_path?: string | undefined;
+  content_base64?: string | undefined;
+  file_name?: string | undefined;
+  url?: string | undefined;
+  title?: string | undefined;
+}
+
+export interface DownloadAttachmentParams {
+  module: CRMModule;
+  record_id: string;
+  attachment_id: string;
+}
+
+export interface AttachmentDownload {
+  attachment_id: string;
+  file_name: string;
+  content_type: string;
+  size: number;
+  content: Buffer;
+}
+
+/**
+ * Metadata lookups are cached; `fresh` bypasses the cache and replaces the cached entry
+ */
 export interface ListModulesParams {
   type?: 'all' | 'custom' | 'standard';
+  fresh?: boolean;
 }
 
 export interface GetModuleFieldsParams {
   module: CRMModule;
+  fresh?: boolean;
+}
+
+export interface GetModuleLayoutsParams {
+  module: CRMModule;
+  fresh?: boolean;
 }
 
 // ===== MCP Tool Types =====
@@ -650,7 +1104,9 @@ export class ZohoMcpError extends Error {
     message: string,
     public code: string,
     public statusCode: number = 500,
-    public details?: Record<string, unknown>
+    public details?: Record<string, unknown>,
+    /** What the caller can do to fix the problem */
+    public hint?: string
   ) {
     super(message);
     this.name = 'ZohoMcpError';
@@ -670,3 +1126,52 @@ export class ConfigurationError extends ZohoMcpError {
     this.name = 'ConfigurationError';
   }
 }
+
+/**
+ * No usable Zoho token: the connection or the user has to authorize (again)
+ */
+export class AuthRequiredError extends ZohoMcpError {
+  constructor(message: string, hint: string, details?: Record<string, unknown>) {
+    super(message, 'AUTH_REQUIRED', 401, details, hint);
+    this.name = 'AuthRequiredError';
+  }
+}
+
+export class InvalidModuleError extends ZohoMcpError {
+  constructor(message: string, details?: Record<string, unknown>, hint = 'Use list_modules to see the API names of all modules') {
+    super(message, 'INVALID_MODULE', 400, details, hint);
+    this.name = 'InvalidModuleError';
+  }
+}
+
+export class InvalidFieldError extends ZohoMcpError {
+  constructor(message: string, details?: Record<string, unknown>, hint = 'Use get_module_fields to see the API names, data types and picklist values of the fields') {
+    super(message, 'INVALID_FIELD', 400, details, hint);
+    this.name = 'InvalidFieldError';
+  }
+}
+
+export class RateLimitedError extends ZohoMcpError {
+  constructor(message: string, details?: Record<string, unknown>, hint = 'Wait before retrying; health_check shows the remaining Zoho API credits and when they reset') {
+    super(message, 'RATE_LIMITED', 429, details, hint);
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class NotFoundError extends ZohoMcpError {
+  constructor(message: string, details?: Record<string, unknown>, hint = 'Check the module and the ID, e.g. by finding the record with search_records') {
+    super(message, 'NOT_FOUND', 404, details, hint);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class PermissionDeniedError extends ZohoMcpError {
+  constructor(
+    message: string,
+    details?: Record<string, unknown>,
+    hint = 'The Zoho user behind this connection lacks the permission, or the OAuth grant lacks the scope (ZOHO_SCOPES). Ask a Zoho administrator, or authorize again with the needed scopes'
+  ) {
+    super(message, 'PERMISSION_DENIED', 403, details, hint);
+    this.name = 'PermissionDeniedError';
+  }
+}
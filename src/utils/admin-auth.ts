@@ -0,0 +1,62 @@
+/**
+ * Admin Authentication
+ * HTTP Basic credentials (ADMIN_USERNAME / ADMIN_PASSWORD) for the OAuth and admin web routes
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check the request's Basic credentials against the configured admin credentials
+ */
+export function isAdminRequest(req: Request): boolean {
+  const { username, password } = config.admin;
+  const encoded = req.headers.authorization?.match(/^Basic\s+(\S+)$/i)?.[1];
+  if (!password || !encoded) {
+    return false;
+  }
+
+  const decoded = Buffer.from(encoded, 'base64').toString('utf-8');
+  const separator = decoded.indexOf(':');
+  if (separator === -1) {
+    return false;
+  }
+
+  // Compare digests so the comparison takes the same time whatever the input length
+  const usernameMatches = timingSafeEqual(digest(decoded.slice(0, separator)), digest(username));
+  const passwordMatches = timingSafeEqual(digest(decoded.slice(separator + 1)), digest(password));
+  return usernameMatches && passwordMatches;
+}
+
+/**
+ * Express middleware that requires the admin credentials.
+ * Without ADMIN_PASSWORD, routes marked `allowWhenUnconfigured` stay open (with a
+ * startup warning) outside production, and all others are disabled.
+ */
+export function requireAdmin(options: { allowWhenUnconfigured?: boolean } = {}) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!config.admin.password) {
+      if (options.allowWhenUnconfigured && !config.isProduction) {
+        next();
+        return;
+      }
+      res.status(503).send('Admin credentials are not configured. Set ADMIN_PASSWORD to use this route');
+      return;
+    }
+
+    if (!isAdminRequest(req)) {
+      logger.warn(`Rejected unauthenticated admin request: ${req.method} ${req.path}`);
+      res.set('WWW-Authenticate', 'Basic realm="Zoho CRM MCP Server", charset="UTF-8"');
+      res.status(401).send('Admin credentials required');
+      return;
+    }
+
+    next();
+  };
+}
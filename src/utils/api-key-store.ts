@@ -0,0 +1,152 @@
+/**
+ * API Key Store
+ * Locally managed bearer keys for the MCP endpoint, saved (as hashes) to the API keys file
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+import {
+  ZohoMcpError,
+  type ApiKeyInfo,
+  type ApiKeyRecord,
+} from '../types/index.js';
+
+/**
+ * Prefix of API keys. The key ID follows it, so a key can be found without scanning every hash.
+ */
+export const API_KEY_PREFIX = 'zmcp_';
+
+function hashApiKey(apiKey: string): Buffer {
+  return createHash('sha256').update(apiKey).digest();
+}
+
+function toInfo({ key_hash: _keyHash, ...info }: ApiKeyRecord): ApiKeyInfo {
+  return info;
+}
+
+/**
+ * API Key Store Class
+ */
+export class ApiKeyStore {
+  private keys = new Map<string, ApiKeyRecord>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+  // Last use is tracked in memory: writing the file on every request would race with the
+  // api-keys script and could bring back keys it revoked or deleted
+  private lastUsed = new Map<string, string>();
+
+  constructor(private readonly filePath: string = path.resolve(config.mcpAuth.apiKeysFile)) {}
+
+  /**
+   * Load keys from the API keys file.
+   * The file is read on every operation so keys created or revoked by the
+   * api-keys script take effect without restarting the server. Last use times seen
+   * by this process are merged in, and saved with the next change to the keys.
+   */
+  private async load(): Promise<void> {
+    await this.pendingWrite.catch(() => undefined);
+    try {
+      const data = await fs.readFile(this.filePath, 'utf-8');
+      this.keys = new Map((JSON.parse(data) as ApiKeyRecord[]).map((key) => [key.id, key]));
+      for (const [id, usedAt] of this.lastUsed) {
+        const record = this.keys.get(id);
+        if (record && (!record.last_used_at || record.last_used_at < usedAt)) {
+          record.last_used_at = usedAt;
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Could not read API keys from ${this.filePath}:`, error);
+      }
+    }
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so a slower earlier write cannot overwrite a newer one
+    const run = async (): Promise<void> => {
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify([...this.keys.values()], null, 2), { encoding: 'utf-8', mode: 0o600 });
+      await fs.rename(tempPath, this.filePath);
+    };
+
+    this.pendingWrite = this.pendingWrite.then(run, run);
+    return this.pendingWrite;
+  }
+
+  /**
+   * Create a key. The plain key is only returned here; the store keeps its hash.
+   */
+  async create(name: string): Promise<{ key: string; info: ApiKeyInfo }> {
+    await this.load();
+    const id = randomBytes(6).toString('hex');
+    const key = `${API_KEY_PREFIX}${id}_${randomBytes(32).toString('base64url')}`;
+
+    const record: ApiKeyRecord = {
+      id,
+      name,
+      key_hash: hashApiKey(key).toString('hex'),
+      created_at: new Date().toISOString(),
+      last_used_at: null,
+      revoked_at: null,
+    };
+
+    this.keys.set(id, record);
+    await this.persist();
+    logger.info(`Created API key ${id} ("${name}")`);
+
+    return { key, info: toInfo(record) };
+  }
+
+  /**
+   * Revoke a key. Revoked keys stay listed so their history is kept.
+   */
+  async revoke(id: string): Promise<ApiKeyInfo> {
+    await this.load();
+    const record = this.keys.get(id);
+    if (!record) {
+      throw new ZohoMcpError(`Unknown API key "${id}"`, 'UNKNOWN_API_KEY', 404, { id });
+    }
+
+    if (!record.revoked_at) {
+      record.revoked_at = new Date().toISOString();
+      await this.persist();
+      logger.info(`Revoked API key ${id} ("${record.name}")`);
+    }
+    return toInfo(record);
+  }
+
+  /**
+   * List keys without their hashes
+   */
+  async list(): Promise<ApiKeyInfo[]> {
+    await this.load();
+    return [...this.keys.values()].map(toInfo);
+  }
+
+  /**
+   * Check a presented key, returning its record when it exists and is not revoked
+   */
+  async verify(apiKey: string): Promise<ApiKeyInfo | null> {
+    await this.load();
+    const match = apiKey.slice(API_KEY_PREFIX.length).match(/^([0-9a-f]{12})_/);
+    const record = match ? this.keys.get(match[1] as string) : undefined;
+    if (!record || record.revoked_at) {
+      return null;
+    }
+
+    const expected = Buffer.from(record.key_hash, 'hex');
+    const presented = hashApiKey(apiKey);
+    if (expected.length !== presented.length || !timingSafeEqual(expected, presented)) {
+      return null;
+    }
+
+    record.last_used_at = new Date().toISOString();
+    this.lastUsed.set(record.id, record.last_used_at);
+    return toInfo(record);
+  }
+}
+
+// Export singleton instance
+export const apiKeyStore = new ApiKeyStore();
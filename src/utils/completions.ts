@@ -0,0 +1,109 @@
+/**
+ * Completions
+ * MCP argument completion for module API names, field API names and picklist values.
+ * Input is matched against API names and display labels, so "sales ord" completes to Sales_Orders.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { normalizeName } from './name-suggestions.js';
+import type { ZohoCRMClient } from './zoho-crm-client.js';
+import type { CRMModule } from '../types/index.js';
+
+/**
+ * Most values a completion may return (MCP limit)
+ */
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Arguments already filled in alongside the one being completed, while a completion request is served
+ */
+const completionContext = new AsyncLocalStorage<Record<string, string>>();
+
+interface CompletionCandidate {
+  value: string;
+  labels: string[];
+}
+
+export interface CompletionResult {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+/**
+ * Rank candidates whose value or a label starts with the input first, then those containing it
+ */
+function completeFrom(input: string, candidates: CompletionCandidate[]): CompletionResult {
+  const normalizedInput = normalizeName(input);
+  const ranked = candidates
+    .map(({ value, labels }) => {
+      const names = [value, ...labels].map(normalizeName);
+      const rank = names.some((name) => name.startsWith(normalizedInput)) ? 0
+        : names.some((name) => name.includes(normalizedInput)) ? 1
+        : -1;
+      return { value, rank };
+    })
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.value.localeCompare(b.value));
+
+  const values = [...new Set(ranked.map(({ value }) => value))];
+  return {
+    values: values.slice(0, MAX_COMPLETION_VALUES),
+    total: values.length,
+    hasMore: values.length > MAX_COMPLETION_VALUES,
+  };
+}
+
+/**
+ * Complete a module argument with the API names of modules the API supports
+ */
+export async function completeModuleName(client: ZohoCRMClient, input: string): Promise<CompletionResult> {
+  const modules = await client.listModules();
+  return completeFrom(input, modules
+    .filter((module) => module.api_supported)
+    .map((module) => ({ value: module.api_name, labels: [module.plural_label, module.singular_label] })));
+}
+
+/**
+ * Serve the completion requests of a session's transport with their `context.arguments`
+ * available to `completionArgument`. FastMCP passes a completer only the argument being
+ * completed, so the context is taken from the request as it arrives.
+ */
+export function trackCompletionContext(transport: Transport): void {
+  const onmessage = transport.onmessage;
+  transport.onmessage = (message, extra) => {
+    const context = 'method' in message && message.method === 'completion/complete'
+      ? (message.params?.context as { arguments?: Record<string, string> } | undefined)?.arguments
+      : undefined;
+    completionContext.run(context ?? {}, () => onmessage?.(message, extra));
+  };
+}
+
+/**
+ * Value of another argument of the completion request being served, if the client sent it
+ */
+export function completionArgument(name: string): string | undefined {
+  return completionContext.getStore()?.[name];
+}
+
+/**
+ * Complete a field argument with the API names of a module's fields.
+ * Completes nothing until the module is chosen.
+ */
+export async function completeFieldName(client: ZohoCRMClient, module: string | undefined, input: string): Promise<CompletionResult> {
+  if (!module) {
+    return { values: [], total: 0, hasMore: false };
+  }
+  const fields = await client.getModuleFields({ module });
+  return completeFrom(input, fields.map((field) => ({ value: field.api_name, labels: [field.display_label] })));
+}
+
+/**
+ * Complete a value of a picklist field with its actual values
+ */
+export async function completePicklistValue(client: ZohoCRMClient, module: CRMModule, field: string, input: string): Promise<CompletionResult> {
+  const fields = await client.getModuleFields({ module });
+  const picklist = fields.find((candidate) => candidate.api_name === field)?.pick_list_values ?? [];
+  return completeFrom(input, picklist.map((option) => ({ value: option.actual_value, labels: [option.display_value] })));
+}
@@ -0,0 +1,195 @@
+/**
+ * Connection Registry
+ * Named Zoho CRM connections, each with its own credentials, region, base URL and token store
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { config, connectionSchema, DEFAULT_CONNECTION, type ConnectionDefinition } from '../config/index.js';
+import { logger } from './logger.js';
+import { OAuthHandler } from './oauth-handler.js';
+import { getTokenStore } from './token-store.js';
+import { ZohoCRMClient, zohoCRMClient } from './zoho-crm-client.js';
+import {
+  ZohoMcpError,
+  type ConnectionStatus,
+  type ZohoConnectionConfig,
+} from '../types/index.js';
+
+interface RegisteredConnection {
+  config: ZohoConnectionConfig;
+  client: ZohoCRMClient;
+  oauthHandler: OAuthHandler;
+}
+
+/**
+ * Connection Registry Class
+ */
+export class ConnectionRegistry {
+  private connections = new Map<string, RegisteredConnection>();
+  // Additions run one at a time, so concurrent writes never share a temp file or drop an entry
+  private pendingAdd: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    for (const connection of config.connections) {
+      this.register(connection);
+    }
+  }
+
+  /**
+   * Register a connection, reusing the shared client for the default connection
+   */
+  private register(connection: ZohoConnectionConfig): RegisteredConnection {
+    const registered: RegisteredConnection = {
+      config: connection,
+      client: connection.name === DEFAULT_CONNECTION ? zohoCRMClient : new ZohoCRMClient(connection),
+      oauthHandler: new OAuthHandler(connection),
+    };
+    this.connections.set(connection.name, registered);
+    return registered;
+  }
+
+  /**
+   * Load connections added at runtime (through /oauth/authorize) from the connections file
+   */
+  async loadSavedConnections(): Promise<void> {
+    for (const definition of await this.readSavedConnections()) {
+      if (!this.connections.has(definition.name)) {
+        this.register(config.resolveConnection(definition));
+      }
+    }
+    logger.info(`Connections available: ${this.names().join(', ')}`);
+  }
+
+  private async readSavedConnections(): Promise<ConnectionDefinition[]> {
+    try {
+      const data = await fs.readFile(path.resolve(config.connectionsFile), 'utf-8');
+      return z.array(connectionSchema).parse(JSON.parse(data));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Could not read connections from ${config.connectionsFile}:`, error);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Add a connection and save it to the connections file so it survives restarts
+   */
+  async addConnection(definition: ConnectionDefinition): Promise<ZohoConnectionConfig> {
+    const parsed = connectionSchema.parse(definition);
+    const added = this.pendingAdd.then(() => this.saveConnection(parsed));
+    this.pendingAdd = added.catch(() => undefined);
+    return added;
+  }
+
+  private async saveConnection(parsed: ConnectionDefinition): Promise<ZohoConnectionConfig> {
+    if (this.connections.has(parsed.name)) {
+      throw new ZohoMcpError(`Connection "${parsed.name}" already exists`, 'CONNECTION_EXISTS', 409);
+    }
+
+    const saved = (await this.readSavedConnections()).filter((existing) => existing.name !== parsed.name);
+    saved.push(parsed);
+
+    const filePath = path.resolve(config.connectionsFile);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(saved, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+
+    const registered = this.register(config.resolveConnection(parsed));
+    logger.info(`Added connection "${parsed.name}"`, { region: registered.config.region });
+    return registered.config;
+  }
+
+  /**
+   * Check whether a connection exists
+   */
+  has(name: string): boolean {
+    return this.connections.has(name);
+  }
+
+  /**
+   * Names of all connections
+   */
+  names(): string[] {
+    return [...this.connections.keys()];
+  }
+
+  private get(name: string = DEFAULT_CONNECTION): RegisteredConnection {
+    const connection = this.connections.get(name);
+    if (!connection) {
+      throw new ZohoMcpError(
+        `Unknown connection "${name}". Available connections: ${this.names().join(', ')}`,
+        'UNKNOWN_CONNECTION',
+        404,
+        { connection: name, available: this.names() }
+      );
+    }
+    return connection;
+  }
+
+  /**
+   * Get the CRM client of a connection (the default connection when no name is given)
+   */
+  getClient(name?: string): ZohoCRMClient {
+    return this.get(name).client;
+  }
+
+  /**
+   * Get the resolved configuration of a connection
+   */
+  getConfig(name?: string): ZohoConnectionConfig {
+    return this.get(name).config;
+  }
+
+  /**
+   * Get the OAuth handler of a connection
+   */
+  getOAuthHandler(name?: string): OAuthHandler {
+    return this.get(name).oauthHandler;
+  }
+
+  /**
+   * Load the metadata of some modules into the cache of every authorized connection
+   */
+  async warmMetadataCache(modules: string[]): Promise<void> {
+    await Promise.all([...this.connections.values()]
+      .filter(({ client }) => client.getTokenStatus().has_refresh_token)
+      .map(({ client }) => client.warmMetadataCache(modules)));
+  }
+
+  /**
+   * Stop background token renewal on every connection
+   */
+  stopTokenRenewal(): void {
+    for (const { client } of this.connections.values()) {
+      client.stopTokenRenewal();
+    }
+  }
+
+  /**
+   * Report each connection's configuration and authorization state
+   */
+  async getStatuses(): Promise<ConnectionStatus[]> {
+    return Promise.all([...this.connections.values()].map(async ({ config: connection, client }) => {
+      const tokenStore = getTokenStore(connection.name);
+      const stored = await tokenStore.load().catch(() => null);
+      const tokenStatus = client.getTokenStatus();
+
+      return {
+        name: connection.name,
+        region: connection.region,
+        base_url: client.apiBaseUrl,
+        token_store: tokenStore.kind,
+        authorized: tokenStatus.has_refresh_token && tokenStatus.consecutive_failures === 0,
+        has_refresh_token: tokenStatus.has_refresh_token || !!stored?.refresh_token,
+        access_token_expires_at: tokenStatus.access_token_expires_at,
+        last_refresh_error: tokenStatus.last_refresh_error,
+      };
+    }));
+  }
+}
+
+// Export singleton instance
+export const connectionRegistry = new ConnectionRegistry();
@@ -0,0 +1,162 @@
+/**
+ * COQL (CRM Object Query Language) helpers
+ * Parses SELECT statements far enough to check module and field API names
+ * against metadata, and applies LIMIT/OFFSET paging
+ */
+
+import { ZohoMcpError, type CRMFieldInfo } from '../types/index.js';
+import { suggestNames } from './name-suggestions.js';
+
+const COQL_KEYWORDS = new Set([
+  'select', 'from', 'where', 'and', 'or', 'not', 'in', 'like', 'is', 'null', 'between',
+  'order', 'by', 'asc', 'desc', 'limit', 'offset', 'group', 'as', 'true', 'false',
+]);
+
+/**
+ * Fields that every module exposes without being listed in its metadata
+ */
+const IMPLICIT_FIELDS = new Set(['id']);
+
+export interface ParsedCoqlQuery {
+  module: string;
+  fields: string[];
+  hasLimit: boolean;
+}
+
+/**
+ * Extract the module and the field identifiers referenced by a SELECT statement
+ */
+export function parseCoqlQuery(query: string): ParsedCoqlQuery {
+  // Drop string literals so their contents are not mistaken for identifiers
+  const withoutLiterals = query.replace(/'(?:\\.|[^'\\])*'/g, "''");
+
+  const match = withoutLiterals.match(/^\s*select\s+([\s\S]+?)\s+from\s+([A-Za-z0-9_]+)\b([\s\S]*)$/i);
+  if (!match) {
+    throw new ZohoMcpError(
+      'COQL query must have the form "SELECT <fields> FROM <module> [WHERE ...] [ORDER BY ...] [LIMIT ...]"',
+      'INVALID_COQL',
+      400
+    );
+  }
+
+  const [, selectList = '', module = '', rest = ''] = match;
+
+  const aliases = new Set<string>();
+  for (const aliasMatch of withoutLiterals.matchAll(/\bas\s+([A-Za-z_]\w*)/gi)) {
+    aliases.add((aliasMatch[1] as string).toLowerCase());
+  }
+
+  const fields = new Set<string>();
+  const identifierPattern = /[A-Za-z_$][\w.$]*(?=\s*(\()?)/g;
+  for (const clause of [selectList, rest]) {
+    for (const identifierMatch of clause.matchAll(identifierPattern)) {
+      const identifier = identifierMatch[0];
+      const isFunction = identifierMatch[1] === '(';
+      const lower = identifier.toLowerCase();
+
+      if (isFunction || COQL_KEYWORDS.has(lower) || aliases.has(lower)) {
+        continue;
+      }
+      fields.add(identifier);
+    }
+  }
+
+  return {
+    module,
+    fields: [...fields],
+    hasLimit: /\blimit\b/i.test(rest),
+  };
+}
+
+/**
+ * Append a LIMIT clause when the query does not already page itself
+ */
+export function applyCoqlPaging(query: string, parsed: ParsedCoqlQuery, limit: number, offset: number): string {
+  if (parsed.hasLimit) {
+    return query.trim();
+  }
+  return `${query.trim().replace(/;$/, '')} LIMIT ${offset}, ${limit}`;
+}
+
+/**
+ * Resolve the module a lookup field points to
+ */
+export function getLookupModule(field: CRMFieldInfo): string | undefined {
+  const lookupModule = field.lookup?.module as unknown;
+  if (typeof lookupModule === 'string') {
+    return lookupModule;
+  }
+  if (lookupModule && typeof lookupModule === 'object' && 'api_name' in lookupModule) {
+    return String((lookupModule as { api_name: string }).api_name);
+  }
+  return undefined;
+}
+
+/**
+ * Check every referenced field against the module metadata.
+ * Dotted references (Account_Name.Industry) are checked against the lookup module's fields
+ * when those are provided in `lookupFields`.
+ * Returns one message per unknown identifier, with suggestions.
+ */
+export function findUnknownCoqlFields(
+  referencedFields: string[],
+  moduleFields: CRMFieldInfo[],
+  lookupFields: Map<string, CRMFieldInfo[]>
+): string[] {
+  const fieldsByName = new Map(moduleFields.map((field) => [field.api_name, field]));
+  const fieldNames = [...fieldsByName.keys()];
+  const errors: string[] = [];
+
+  const describe = (name: string, candidates: string[]): string => {
+    const suggestions = suggestNames(name, candidates);
+    return suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '';
+  };
+
+  for (const reference of referencedFields) {
+    const [head = '', ...path] = reference.split('.');
+    if (IMPLICIT_FIELDS.has(head)) {
+      continue;
+    }
+
+    const field = fieldsByName.get(head);
+    if (!field) {
+      errors.push(`Unknown field "${head}".${describe(head, fieldNames)}`);
+      continue;
+    }
+
+    const [subField] = path;
+    if (subField === undefined || IMPLICIT_FIELDS.has(subField)) {
+      continue;
+    }
+
+    const lookupModule = getLookupModule(field);
+    if (!lookupModule) {
+      errors.push(`Field "${head}" is not a lookup field, so "${reference}" cannot be resolved`);
+      continue;
+    }
+
+    const targetFields = lookupFields.get(lookupModule);
+    if (targetFields && !targetFields.some((candidate) => candidate.api_name === subField)) {
+      errors.push(
+        `Unknown field "${subField}" in ${lookupModule} (via ${head}).` +
+        describe(subField, targetFields.map((candidate) => candidate.api_name))
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build the error reported for an unknown module name
+ */
+export function unknownCoqlModuleError(module: string, moduleNames: string[]): ZohoMcpError {
+  const suggestions = suggestNames(module, moduleNames);
+  const hint = suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '';
+  return new ZohoMcpError(
+    `Invalid COQL query: unknown module "${module}".${hint}`,
+    'INVALID_COQL',
+    400,
+    { module, suggestions }
+  );
+}
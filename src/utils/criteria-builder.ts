@@ -0,0 +1,168 @@
+/**
+ * Criteria Builder for the Zoho CRM search API
+ * Validates structured criteria against field metadata and renders Zoho's
+ * `(Field:operator:value)` criteria string
+ */
+
+import {
+  ZohoMcpError,
+  type CRMFieldInfo,
+  type CriteriaCondition,
+  type CriteriaGroup,
+  type CriteriaNode,
+  type CriteriaOperator,
+  type CriteriaValue,
+} from '../types/index.js';
+
+const TEXT_OPERATORS: CriteriaOperator[] = ['equals', 'not_equal', 'starts_with', 'in', 'not_in'];
+const LIST_OPERATORS: CriteriaOperator[] = ['equals', 'not_equal', 'in', 'not_in'];
+const RANGE_OPERATORS: CriteriaOperator[] = [
+  'equals', 'not_equal', 'in', 'not_in',
+  'greater_than', 'greater_equal', 'less_than', 'less_equal', 'between',
+];
+
+/**
+ * Operators accepted by the search API for each field data type.
+ * Data types not listed here are not restricted.
+ */
+const OPERATORS_BY_DATA_TYPE: Record<string, CriteriaOperator[]> = {
+  text: TEXT_OPERATORS,
+  textarea: TEXT_OPERATORS,
+  email: TEXT_OPERATORS,
+  phone: TEXT_OPERATORS,
+  website: TEXT_OPERATORS,
+  autonumber: TEXT_OPERATORS,
+  picklist: LIST_OPERATORS,
+  multiselectpicklist: LIST_OPERATORS,
+  lookup: LIST_OPERATORS,
+  ownerlookup: LIST_OPERATORS,
+  userlookup: LIST_OPERATORS,
+  boolean: ['equals', 'not_equal'],
+  integer: RANGE_OPERATORS,
+  bigint: RANGE_OPERATORS,
+  double: RANGE_OPERATORS,
+  decimal: RANGE_OPERATORS,
+  currency: RANGE_OPERATORS,
+  percent: RANGE_OPERATORS,
+  date: RANGE_OPERATORS,
+  datetime: RANGE_OPERATORS,
+};
+
+/**
+ * Check whether a criteria node is a group of conditions
+ */
+export function isCriteriaGroup(node: CriteriaNode): node is CriteriaGroup {
+  return 'group' in node;
+}
+
+/**
+ * Escape characters that have a meaning inside a criteria expression
+ */
+function escapeValue(value: CriteriaValue): string {
+  if (value === null) {
+    return 'null';
+  }
+  return String(value).replace(/([\\(),])/g, '\\$1');
+}
+
+/**
+ * Render a structured criteria tree as a Zoho criteria string
+ */
+export function buildCriteria(node: CriteriaNode): string {
+  if (isCriteriaGroup(node)) {
+    if (node.group.length === 1) {
+      return buildCriteria(node.group[0] as CriteriaNode);
+    }
+    return `(${node.group.map(buildCriteria).join(node.group_operator)})`;
+  }
+
+  const values = Array.isArray(node.value) ? node.value : [node.value];
+  return `(${node.field}:${node.operator}:${values.map(escapeValue).join(',')})`;
+}
+
+/**
+ * Validate a single condition against the module's field metadata
+ */
+function validateCondition(condition: CriteriaCondition, fieldsByName: Map<string, CRMFieldInfo>): string[] {
+  const errors: string[] = [];
+  const field = fieldsByName.get(condition.field);
+
+  if (!field) {
+    const suggestions = [...fieldsByName.values()]
+      .filter((candidate) =>
+        candidate.api_name.toLowerCase() === condition.field.toLowerCase() ||
+        candidate.display_label.toLowerCase() === condition.field.toLowerCase()
+      )
+      .map((candidate) => candidate.api_name);
+    const hint = suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '';
+    errors.push(`Unknown field "${condition.field}".${hint}`);
+    return errors;
+  }
+
+  const allowed = OPERATORS_BY_DATA_TYPE[field.data_type];
+  if (allowed && !allowed.includes(condition.operator)) {
+    errors.push(
+      `Operator "${condition.operator}" is not supported for ${field.data_type} field "${field.api_name}". ` +
+      `Use one of: ${allowed.join(', ')}`
+    );
+  }
+
+  const isArray = Array.isArray(condition.value);
+  if (condition.operator === 'between') {
+    if (!isArray || (condition.value as CriteriaValue[]).length !== 2) {
+      errors.push(`Operator "between" on "${field.api_name}" requires an array of exactly two values`);
+    }
+  } else if (condition.operator === 'in' || condition.operator === 'not_in') {
+    if (!isArray || (condition.value as CriteriaValue[]).length === 0) {
+      errors.push(`Operator "${condition.operator}" on "${field.api_name}" requires a non-empty array of values`);
+    }
+  } else if (isArray) {
+    errors.push(`Operator "${condition.operator}" on "${field.api_name}" takes a single value`);
+  }
+
+  if (field.pick_list_values && field.pick_list_values.length > 0) {
+    const known = new Set(field.pick_list_values.map((option) => option.actual_value));
+    const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+    for (const value of values) {
+      if (value !== null && !known.has(String(value))) {
+        errors.push(
+          `Value "${value}" is not a picklist option of "${field.api_name}". ` +
+          `Valid options: ${[...known].join(', ')}`
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a structured criteria tree against the module's field metadata.
+ * Throws a ZohoMcpError listing every problem found.
+ */
+export function validateCriteria(node: CriteriaNode, fields: CRMFieldInfo[]): void {
+  const fieldsByName = new Map(fields.map((field) => [field.api_name, field]));
+  const errors: string[] = [];
+
+  const visit = (current: CriteriaNode): void => {
+    if (isCriteriaGroup(current)) {
+      if (current.group.length === 0) {
+        errors.push('Criteria groups must contain at least one condition');
+      }
+      current.group.forEach(visit);
+      return;
+    }
+    errors.push(...validateCondition(current, fieldsByName));
+  };
+
+  visit(node);
+
+  if (errors.length > 0) {
+    throw new ZohoMcpError(
+      `Invalid search criteria: ${errors.join('; ')}`,
+      'INVALID_CRITERIA',
+      400,
+      { errors }
+    );
+  }
+}
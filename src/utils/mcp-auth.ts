@@ -0,0 +1,199 @@
+/**
+ * MCP Endpoint Authentication
+ * Identifies the caller of the MCP endpoint from a bearer credential: a personal
+ * access key, a locally managed API key or an OAuth 2.1 access token checked by
+ * introspection (RFC 7662) against the configured authorization server
+ */
+
+import axios from 'axios';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+import { API_KEY_PREFIX, apiKeyStore } from './api-key-store.js';
+import { ACCESS_KEY_PREFIX, userRegistry } from './user-registry.js';
+import { ZohoMcpError, type McpSessionAuth } from '../types/index.js';
+
+/**
+ * Longest time an introspection result is reused
+ */
+const INTROSPECTION_CACHE_MS = 60 * 1000;
+
+interface IntrospectionResult {
+  active: boolean;
+  sub?: string;
+  client_id?: string;
+  username?: string;
+  scope?: string;
+  aud?: string | string[];
+  iss?: string;
+  exp?: number;
+}
+
+function unauthorized(message: string): ZohoMcpError {
+  return new ZohoMcpError(`Unauthorized: ${message}`, 'UNAUTHORIZED', 401);
+}
+
+/**
+ * MCP Authenticator Class
+ */
+export class McpAuthenticator {
+  private introspectionCache = new Map<string, { session: McpSessionAuth; expiresAt: number }>();
+  // The credential each session was opened with, so it can be checked again on every call
+  private sessionCredentials = new WeakMap<NonNullable<McpSessionAuth>, string>();
+
+  /**
+   * Whether requests without credentials are rejected
+   */
+  get required(): boolean {
+    return config.mcpAuth.mode !== 'none' || config.userAuth.mode === 'required';
+  }
+
+  /**
+   * Identify the caller from the Authorization header.
+   * Returns undefined for anonymous requests when authentication is not required.
+   */
+  async authenticate(authorization: string | undefined): Promise<McpSessionAuth> {
+    const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!token) {
+      if (this.required) {
+        throw unauthorized('a bearer token is required');
+      }
+      return undefined;
+    }
+
+    const session = await this.identify(token);
+    if (config.userAuth.mode === 'required' && !session?.user_id) {
+      throw unauthorized('a personal access key is required. Link your Zoho account at /oauth/authorize?mode=user');
+    }
+    if (session) {
+      this.sessionCredentials.set(session, token);
+    }
+    return session;
+  }
+
+  /**
+   * Check that the credential a session was opened with is still valid.
+   * Stateful HTTP sessions are only authenticated when they start, so a key revoked,
+   * rotated or unlinked since then is caught here on the next call.
+   */
+  async verifySession(session: McpSessionAuth): Promise<void> {
+    const token = session ? this.sessionCredentials.get(session) : undefined;
+    if (token) {
+      await this.identify(token);
+    }
+  }
+
+  /**
+   * Check whether a request carries a credential the MCP endpoint accepts, as a bearer
+   * token or as the password of HTTP Basic credentials (so a browser can prompt for it)
+   */
+  async acceptsCredential(authorization: string | undefined): Promise<boolean> {
+    const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    const basic = authorization?.match(/^Basic\s+(\S+)$/i)?.[1];
+    const decoded = basic ? Buffer.from(basic, 'base64').toString('utf-8') : '';
+    const token = bearer ?? (decoded.includes(':') ? decoded.slice(decoded.indexOf(':') + 1) : undefined);
+    if (!token) {
+      return false;
+    }
+
+    try {
+      await this.identify(token);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async identify(token: string): Promise<McpSessionAuth> {
+    const { apiKeysEnabled, oauthEnabled } = config.mcpAuth;
+
+    if (token.startsWith(ACCESS_KEY_PREFIX) && config.userAuth.mode !== 'disabled') {
+      const session = await userRegistry.authenticate(token);
+      if (!session) {
+        throw unauthorized('unknown personal access key');
+      }
+      return session;
+    }
+
+    if (token.startsWith(API_KEY_PREFIX) && apiKeysEnabled) {
+      const key = await apiKeyStore.verify(token);
+      if (!key) {
+        throw unauthorized('unknown or revoked API key');
+      }
+      return { method: 'api_key', subject: key.id, name: key.name };
+    }
+
+    if (oauthEnabled) {
+      return this.introspect(token);
+    }
+
+    throw unauthorized('unsupported credentials');
+  }
+
+  /**
+   * Validate an OAuth access token with the authorization server's introspection endpoint
+   */
+  private async introspect(token: string): Promise<McpSessionAuth> {
+    const cached = this.introspectionCache.get(token);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.session;
+    }
+
+    const { introspectionUrl, clientId, clientSecret, issuer, resource, scopes: requiredScopes } = config.mcpAuth.oauth;
+
+    let result: IntrospectionResult;
+    try {
+      const response = await axios.post<IntrospectionResult>(
+        introspectionUrl as string,
+        new URLSearchParams({ token, token_type_hint: 'access_token' }).toString(),
+        {
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+          ...(clientId ? { auth: { username: clientId, password: clientSecret || '' } } : {}),
+          timeout: 10000,
+        }
+      );
+      result = response.data;
+    } catch (error) {
+      logger.error('OAuth token introspection failed:', error);
+      throw unauthorized('the access token could not be verified');
+    }
+
+    if (!result.active) {
+      throw unauthorized('the access token is not active');
+    }
+    if (result.iss && issuer && result.iss.replace(/\/$/, '') !== issuer.replace(/\/$/, '')) {
+      throw unauthorized('the access token was issued by another authorization server');
+    }
+
+    // The token must be meant for this server (RFC 8707 audience binding)
+    const audiences = Array.isArray(result.aud) ? result.aud : result.aud ? [result.aud] : [];
+    if (!audiences.some((audience) => audience.replace(/\/$/, '') === resource?.replace(/\/$/, ''))) {
+      throw unauthorized('the access token was not issued for this server');
+    }
+
+    const grantedScopes = (result.scope || '').split(' ').filter(Boolean);
+    const missingScopes = requiredScopes.filter((scope) => !grantedScopes.includes(scope));
+    if (missingScopes.length > 0) {
+      throw unauthorized(`the access token lacks the scopes: ${missingScopes.join(', ')}`);
+    }
+
+    const session: McpSessionAuth = {
+      method: 'oauth',
+      subject: result.sub || result.client_id || 'unknown',
+      scopes: grantedScopes,
+      ...(result.username ? { name: result.username } : {}),
+    };
+
+    const expiresAt = Math.min(Date.now() + INTROSPECTION_CACHE_MS, result.exp ? result.exp * 1000 : Infinity);
+    this.introspectionCache.set(token, { session, expiresAt });
+    for (const [cachedToken, entry] of this.introspectionCache) {
+      if (entry.expiresAt <= Date.now()) {
+        this.introspectionCache.delete(cachedToken);
+      }
+    }
+
+    return session;
+  }
+}
+
+// Export singleton instance
+export const mcpAuthenticator = new McpAuthenticator();
@@ -0,0 +1,179 @@
+/**
+ * Metadata Cache
+ * Caches Zoho CRM settings (modules, fields, layouts, related lists) per connection
+ * and linked user, optionally persisted to METADATA_CACHE_FILE
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { config, DEFAULT_CONNECTION } from '../config/index.js';
+import { logger } from './logger.js';
+
+interface CacheEntry {
+  value: unknown;
+  expires_at: number;
+}
+
+type PersistedCaches = Record<string, Record<string, CacheEntry>>;
+
+/**
+ * Prefixes of the keys holding one module's metadata
+ */
+const MODULE_KEY_PREFIXES = ['fields:', 'layouts:', 'related_lists:'];
+
+/**
+ * Metadata Cache Class
+ */
+export class MetadataCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(
+    readonly scope: string,
+    private readonly ttlMs: number = config.metadataCache.ttlMs
+  ) {}
+
+  /**
+   * Return the cached value of a key, loading it when missing, expired or `fresh` is set.
+   * Concurrent loads of the same key share one request.
+   */
+  async get<T>(key: string, load: () => Promise<T>, fresh = false): Promise<T> {
+    const entry = this.entries.get(key);
+    if (!fresh && entry && entry.expires_at > Date.now()) {
+      return entry.value as T;
+    }
+
+    let pending = this.inFlight.get(key) as Promise<T> | undefined;
+    if (!pending || fresh) {
+      pending = load().then((value) => {
+        if (this.ttlMs > 0) {
+          this.entries.set(key, { value, expires_at: Date.now() + this.ttlMs });
+          schedulePersist();
+        }
+        return value;
+      }).finally(() => {
+        if (this.inFlight.get(key) === pending) {
+          this.inFlight.delete(key);
+        }
+      });
+      this.inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Drop cached entries, all of them or those of one module (given by API name).
+   * Returns how many were dropped.
+   */
+  invalidate(module?: string): number {
+    const moduleKeys = module && MODULE_KEY_PREFIXES.map((prefix) => `${prefix}${module}`);
+    let dropped = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (!moduleKeys || moduleKeys.includes(key)) {
+        this.entries.delete(key);
+        dropped++;
+      }
+    }
+    if (dropped > 0) {
+      schedulePersist();
+    }
+    return dropped;
+  }
+
+  /**
+   * Number of cached entries that have not expired
+   */
+  get size(): number {
+    const now = Date.now();
+    return [...this.entries.values()].filter((entry) => entry.expires_at > now).length;
+  }
+
+  toJSON(): Record<string, CacheEntry> {
+    const now = Date.now();
+    return Object.fromEntries([...this.entries].filter(([, entry]) => entry.expires_at > now));
+  }
+
+  restore(entries: Record<string, CacheEntry>): void {
+    const now = Date.now();
+    for (const [key, entry] of Object.entries(entries)) {
+      if (entry.expires_at > now) {
+        this.entries.set(key, entry);
+      }
+    }
+  }
+}
+
+const caches = new Map<string, MetadataCache>();
+let pendingWrite: Promise<void> = Promise.resolve();
+let persistQueued = false;
+
+/**
+ * Write all caches to METADATA_CACHE_FILE once the current burst of changes is over
+ */
+function schedulePersist(): void {
+  const file = config.metadataCache.file;
+  if (!file || persistQueued) {
+    return;
+  }
+
+  persistQueued = true;
+  pendingWrite = pendingWrite.then(async () => {
+    persistQueued = false;
+    const filePath = path.resolve(file);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    const data: PersistedCaches = Object.fromEntries([...caches].map(([scope, cache]) => [scope, cache.toJSON()]));
+    await fs.writeFile(tempPath, JSON.stringify(data), { encoding: 'utf-8', mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+  }).catch((error) => {
+    logger.warn(`Could not save metadata cache to ${file}:`, error);
+  });
+}
+
+/**
+ * Get the metadata cache of a connection, or of a linked user (scope `<connection>.user.<id>`),
+ * since the fields a user can see depend on their Zoho profile
+ */
+export function getMetadataCache(scope: string = DEFAULT_CONNECTION): MetadataCache {
+  let cache = caches.get(scope);
+  if (!cache) {
+    cache = new MetadataCache(scope);
+    caches.set(scope, cache);
+  }
+  return cache;
+}
+
+/**
+ * Drop the cached metadata of a connection and its linked users.
+ * Returns how many entries were dropped.
+ */
+export function invalidateMetadataCache(connection: string, module?: string): number {
+  let dropped = 0;
+  for (const [scope, cache] of caches) {
+    if (scope === connection || scope.startsWith(`${connection}.user.`)) {
+      dropped += cache.invalidate(module);
+    }
+  }
+  return dropped;
+}
+
+/**
+ * Restore unexpired entries saved to METADATA_CACHE_FILE by a previous run
+ */
+export async function loadMetadataCache(): Promise<void> {
+  const file = config.metadataCache.file;
+  if (!file) {
+    return;
+  }
+
+  try {
+    const data = JSON.parse(await fs.readFile(path.resolve(file), 'utf-8')) as PersistedCaches;
+    for (const [scope, entries] of Object.entries(data)) {
+      getMetadataCache(scope).restore(entries);
+    }
+    logger.info(`Loaded metadata cache from ${file}`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn(`Could not read metadata cache from ${file}:`, error);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Metrics
+ * Prometheus metrics for tool calls, Zoho CRM API requests, token refreshes and
+ * MCP sessions, served at /metrics on METRICS_PORT
+ */
+
+import express from 'express';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+
+/**
+ * Replace record IDs in an API path, so each endpoint is one label value
+ */
+export function normalizeEndpoint(url: string | undefined): string {
+  if (!url) {
+    return 'unknown';
+  }
+  const pathname = url.split('?')[0] ?? '';
+  return pathname.replace(/\/\d{6,}(?=\/|$)/g, '/:id') || '/';
+}
+
+/**
+ * Whether a tool result reports a failure. Tools return failures as results with isError instead of throwing.
+ */
+export function isToolFailure(result: unknown): boolean {
+  return typeof result === 'object' && result !== null && (result as { isError?: unknown }).isError === true;
+}
+
+/**
+ * Metrics Collector Class
+ */
+export class MetricsCollector {
+  readonly registry = new Registry();
+
+  private toolCalls = new Counter({
+    name: 'zoho_mcp_tool_calls_total',
+    help: 'MCP tool calls',
+    labelNames: ['tool'] as const,
+    registers: [this.registry],
+  });
+
+  private toolErrors = new Counter({
+    name: 'zoho_mcp_tool_errors_total',
+    help: 'MCP tool calls that failed',
+    labelNames: ['tool'] as const,
+    registers: [this.registry],
+  });
+
+  private toolDuration = new Histogram({
+    name: 'zoho_mcp_tool_duration_seconds',
+    help: 'MCP tool call latency',
+    labelNames: ['tool'] as const,
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  private zohoRequests = new Counter({
+    name: 'zoho_api_requests_total',
+    help: 'Requests sent to the Zoho CRM API, by response status ("network_error" when none was received)',
+    labelNames: ['connection', 'method', 'endpoint', 'status'] as const,
+    registers: [this.registry],
+  });
+
+  private zohoRequestDuration = new Histogram({
+    name: 'zoho_api_request_duration_seconds',
+    help: 'Zoho CRM API request latency',
+    labelNames: ['connection', 'method', 'endpoint'] as const,
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  private tokenRefreshes = new Counter({
+    name: 'zoho_token_refreshes_total',
+    help: 'Zoho access token refreshes, by outcome',
+    labelNames: ['connection', 'outcome'] as const,
+    registers: [this.registry],
+  });
+
+  private activeSessions = new Gauge({
+    name: 'zoho_mcp_active_sessions',
+    help: 'Connected MCP sessions',
+    registers: [this.registry],
+  });
+
+  constructor() {
+    // Process memory, CPU and event loop metrics
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  /**
+   * Wrap a tool's execute function to count calls, failures and latency
+   */
+  instrumentTool<A extends unknown[], R>(tool: string, execute: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+    return async (...args: A) => {
+      const stopTimer = this.toolDuration.startTimer({ tool });
+      this.toolCalls.inc({ tool });
+      try {
+        const result = await execute(...args);
+        if (isToolFailure(result)) {
+          this.toolErrors.inc({ tool });
+        }
+        return result;
+      } catch (error) {
+        this.toolErrors.inc({ tool });
+        throw error;
+      } finally {
+        stopTimer();
+      }
+    };
+  }
+
+  /**
+   * Record one HTTP request to the Zoho CRM API
+   */
+  recordZohoRequest(connection: string, method: string | undefined, url: string | undefined, status: number | undefined, durationMs: number): void {
+    const labels = { connection, method: (method ?? 'get').toUpperCase(), endpoint: normalizeEndpoint(url) };
+    this.zohoRequests.inc({ ...labels, status: status === undefined ? 'network_error' : String(status) });
+    this.zohoRequestDuration.observe(labels, durationMs / 1000);
+  }
+
+  /**
+   * Record the outcome of an access token refresh
+   */
+  recordTokenRefresh(connection: string, outcome: 'success' | 'failure'): void {
+    this.tokenRefreshes.inc({ connection, outcome });
+  }
+
+  sessionConnected(): void {
+    this.activeSessions.inc();
+  }
+
+  sessionDisconnected(): void {
+    this.activeSessions.dec();
+  }
+
+  /**
+   * Serve /metrics in the Prometheus text format on METRICS_HOST:METRICS_PORT.
+   * The endpoint is unauthenticated, so it listens on localhost unless METRICS_HOST says otherwise.
+   */
+  startServer(port: number = config.monitoring.port, host: string = config.monitoring.host): void {
+    const app = express();
+    app.get('/metrics', async (req, res) => {
+      try {
+        res.set('Content-Type', this.registry.contentType);
+        res.send(await this.registry.metrics());
+      } catch (error) {
+        logger.error('Collecting metrics failed:', error);
+        res.status(500).send('Collecting metrics failed');
+      }
+    });
+
+    // Failing to serve metrics (e.g. the port is taken) must not take the MCP server down
+    app.listen(port, host, () => {
+      logger.info(`Metrics available at http://${host}:${port}/metrics`);
+    }).on('error', (error) => {
+      logger.error(`Could not serve metrics on ${host}:${port}:`, error);
+    });
+  }
+}
+
+// Export singleton instance
+export const metrics = new MetricsCollector();
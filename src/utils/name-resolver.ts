@@ -0,0 +1,140 @@
+/**
+ * Name Resolver
+ * Maps module and field names given as API names, labels or near-miss spellings
+ * to their API names, using module and field metadata
+ */
+
+import { InvalidFieldError, InvalidModuleError, type CRMFieldInfo, type CRMModuleInfo, type CriteriaNode } from '../types/index.js';
+import { isCriteriaGroup } from './criteria-builder.js';
+import { normalizeName, suggestNames } from './name-suggestions.js';
+
+/**
+ * Fields that every module exposes without being listed in its metadata
+ */
+const IMPLICIT_FIELDS = new Set(['id']);
+
+interface NameCandidate {
+  api_name: string;
+  labels: unknown[];
+}
+
+type NameResolution =
+  | { api_name: string }
+  | { ambiguous: boolean; suggestions: string[] };
+
+/**
+ * Resolve a name in order: exact API name, API name or label ignoring case and separators,
+ * API name or label containing the input, then spelling distance. Without `guess`, only
+ * the first two tiers apply. More than one match at the first tier that has any makes the name ambiguous.
+ */
+function resolveName(input: string, candidates: NameCandidate[], guess = true): NameResolution {
+  if (candidates.some((candidate) => candidate.api_name === input)) {
+    return { api_name: input };
+  }
+
+  // Every API name and label, with the API names it stands for
+  const apiNamesByName = new Map<string, Set<string>>();
+  for (const { api_name, labels } of candidates) {
+    for (const name of [api_name, ...labels]) {
+      if (typeof name === 'string' && name !== '') {
+        apiNamesByName.set(name, (apiNamesByName.get(name) ?? new Set()).add(api_name));
+      }
+    }
+  }
+  const names = [...apiNamesByName.keys()];
+  const apiNamesOf = (matches: string[]) => [...new Set(matches.flatMap((name) => [...apiNamesByName.get(name) ?? []]))];
+
+  const normalizedInput = normalizeName(input);
+  const containing = () => apiNamesOf(names.filter((name) => normalizeName(name).includes(normalizedInput)));
+  const tiers = [
+    () => apiNamesOf(names.filter((name) => normalizeName(name) === normalizedInput)),
+    ...(guess ? [containing, () => apiNamesOf(suggestNames(input, names, 5))] : []),
+  ];
+  const matches = tiers.reduce<string[]>((found, tier) => found.length > 0 ? found : tier(), []);
+  if (matches.length === 1) {
+    return { api_name: matches[0] as string };
+  }
+  if (matches.length > 1) {
+    return { ambiguous: true, suggestions: matches.slice(0, 5) };
+  }
+  const partialMatches = containing();
+  const suggestions = partialMatches.length > 0 ? partialMatches : apiNamesOf(suggestNames(input, names, 3, Infinity));
+  return { ambiguous: false, suggestions: suggestions.slice(0, 3) };
+}
+
+function describe(input: string, kind: string, resolution: { ambiguous: boolean; suggestions: string[] }): string {
+  const hint = resolution.suggestions.length > 0 ? ` Did you mean: ${resolution.suggestions.join(', ')}?` : '';
+  return resolution.ambiguous
+    ? `${kind} "${input}" is ambiguous.${hint}`
+    : `Unknown ${kind.toLowerCase()} "${input}".${hint}`;
+}
+
+/**
+ * Resolve a module API name from an API name, a singular or plural label, or a near-miss spelling
+ */
+export function resolveModuleName(input: string, modules: CRMModuleInfo[]): string {
+  const resolution = resolveName(input, modules.map((module) => ({
+    api_name: module.api_name,
+    labels: [module.plural_label, module.singular_label, module.display_name],
+  })));
+  if ('api_name' in resolution) {
+    return resolution.api_name;
+  }
+
+  throw new InvalidModuleError(describe(input, 'Module', resolution), { module: input, suggestions: resolution.suggestions });
+}
+
+/**
+ * Resolve field API names of a module from API names, labels or near-miss spellings.
+ * Writes set `guess` to false, so only API names and labels (ignoring case and separators)
+ * are accepted and any other name is reported with suggestions instead of guessed.
+ * Throws one error listing every field that could not be resolved.
+ */
+export function resolveFieldNames(module: string, inputs: string[], fields: CRMFieldInfo[], guess = true): string[] {
+  const candidates = fields.map((field) => ({ api_name: field.api_name, labels: [field.display_label, field.field_label] }));
+  const errors: string[] = [];
+  const suggestions: Record<string, string[]> = {};
+
+  const resolved = inputs.map((input) => {
+    // Lookup paths and $-prefixed system fields are passed on as given
+    if (IMPLICIT_FIELDS.has(input) || input.includes('.') || input.startsWith('$')) {
+      return input;
+    }
+
+    const resolution = resolveName(input, candidates, guess);
+    if ('api_name' in resolution) {
+      return resolution.api_name;
+    }
+    errors.push(describe(input, 'Field', resolution));
+    suggestions[input] = resolution.suggestions;
+    return input;
+  });
+
+  if (errors.length > 0) {
+    throw new InvalidFieldError(`Invalid fields for ${module}: ${errors.join('; ')}`, { module, errors, suggestions });
+  }
+  return resolved;
+}
+
+/**
+ * Resolve the field names used in a structured criteria tree
+ */
+export function resolveCriteriaFields(module: string, node: CriteriaNode, fields: CRMFieldInfo[]): CriteriaNode {
+  const inputs: string[] = [];
+  const collect = (current: CriteriaNode): void => {
+    if (isCriteriaGroup(current)) {
+      current.group.forEach(collect);
+    } else {
+      inputs.push(current.field);
+    }
+  };
+  collect(node);
+
+  const uniqueInputs = [...new Set(inputs)];
+  const resolved = new Map(resolveFieldNames(module, uniqueInputs, fields).map((name, index) => [uniqueInputs[index] as string, name]));
+
+  const rename = (current: CriteriaNode): CriteriaNode => isCriteriaGroup(current)
+    ? { ...current, group: current.group.map(rename) }
+    : { ...current, field: resolved.get(current.field) ?? current.field };
+  return rename(node);
+}
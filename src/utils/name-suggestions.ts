@@ -0,0 +1,58 @@
+/**
+ * Name suggestion helpers
+ * Ranks known API names by similarity to an unknown identifier
+ */
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0] as number;
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j] as number;
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      previous[j] = Math.min(above + 1, (previous[j - 1] as number) + 1, diagonal + cost);
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length] as number;
+}
+
+/**
+ * Normalize a name for comparison: lowercase, with spaces and underscores removed
+ */
+export function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Suggest the closest candidates for an unknown name.
+ * By default, candidates further than a third of the input length away are dropped.
+ */
+export function suggestNames(
+  input: string,
+  candidates: string[],
+  limit: number = 3,
+  maxDistance: number = Math.max(2, Math.ceil(normalizeName(input).length / 3))
+): string[] {
+  const normalizedInput = normalizeName(input);
+
+  return candidates
+    .map((candidate) => {
+      const normalizedCandidate = normalizeName(candidate);
+      const distance = normalizedCandidate.startsWith(normalizedInput) || normalizedInput.startsWith(normalizedCandidate)
+        ? Math.min(1, editDistance(normalizedInput, normalizedCandidate))
+        : editDistance(normalizedInput, normalizedCandidate);
+      return { candidate, distance };
+    })
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
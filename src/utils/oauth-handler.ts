@@ -5,54 +5,96 @@
 
 import axios from 'axios';
 import { config } from '../config/index.js';
+import { findRegionByAccountsUrl, findRegionByApiDomain, ZOHO_DATA_CENTERS } from '../config/data-centers.js';
 import { logger } from './logger.js';
-import { ZohoApiClientError, type ZohoAuthTokens } from '../types/index.js';
-import fs from 'fs/promises';
-import path from 'path';
+import { getTokenStore } from './token-store.js';
+import {
+  ZohoApiClientError,
+  type StoredTokens,
+  type TokenStore,
+  type ZohoAuthTokens,
+  type ZohoConnectionConfig,
+  type ZohoUserProfile,
+} from '../types/index.js';
 
 export class OAuthHandler {
   private clientId: string;
   private clientSecret: string;
   private region: string;
+  private accountsUrl: string;
   private redirectUri: string;
+  private scopes: string[];
 
-  constructor() {
-    this.clientId = config.zoho.clientId;
-    this.clientSecret = config.zoho.clientSecret;
-    this.region = config.zoho.region;
-    this.redirectUri = `https://nazareno-zcrm-mcp.interconnecta.ai/oauth/callback`;
+  constructor(
+    private readonly connection: ZohoConnectionConfig = config.connections[0] as ZohoConnectionConfig,
+    private readonly tokenStore: TokenStore = getTokenStore(connection.name)
+  ) {
+    this.clientId = connection.clientId;
+    this.clientSecret = connection.clientSecret;
+    this.region = connection.region;
+    this.accountsUrl = connection.accountsUrl;
+    this.redirectUri = config.zoho.redirectUri;
+    this.scopes = config.zoho.scopes;
   }
 
   /**
-   * Generate authorization URL for OAuth flow
+   * Name of the connection this handler authorizes
    */
-  async getAuthorizationUrl(): Promise<string> {
-    const baseUrl = `https://accounts.zoho.${this.region}/oauth/v2/auth`;
+  get connectionName(): string {
+    return this.connection.name;
+  }
+
+  /**
+   * Generate authorization URL for OAuth flow.
+   * The signed state (see OAuthStateManager) is checked by the callback, and the
+   * PKCE challenge ties the authorization code to this flow's code verifier.
+   */
+  async getAuthorizationUrl(state: string, codeChallenge: string): Promise<string> {
+    const baseUrl = `${this.accountsUrl}/oauth/v2/auth`;
     
     const params = new URLSearchParams({
       client_id: this.clientId,
       response_type: 'code',
       redirect_uri: this.redirectUri,
-      scope: 'ZohoCRM.modules.ALL,ZohoCRM.users.ALL,ZohoCRM.settings.ALL',
+      scope: this.scopes.join(','),
       access_type: 'offline',
-      prompt: 'consent'
+      prompt: 'consent',
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256'
     });
 
     const authUrl = `${baseUrl}?${params.toString()}`;
     logger.info('Generated OAuth authorization URL with scopes', { 
-      authUrl,
-      scopes: 'ZohoCRM.modules.ALL,ZohoCRM.users.ALL,ZohoCRM.settings.ALL'
+      connection: this.connection.name,
+      redirectUri: this.redirectUri,
+      scopes: this.scopes.join(',')
     });
     
     return authUrl;
   }
 
   /**
-   * Exchange authorization code for tokens (gets refresh token)
+   * Exchange authorization code for tokens (gets refresh token).
+   * Zoho sends users whose organization lives in another data center back with an
+   * `accounts-server` parameter; the code must be exchanged with that server.
    */
-  async exchangeCodeForTokens(code: string): Promise<ZohoAuthTokens> {
+  async exchangeCodeForTokens(code: string, codeVerifier: string, accountsServer?: string): Promise<ZohoAuthTokens> {
     try {
-      const tokenUrl = `https://accounts.zoho.${this.region}/oauth/v2/token`;
+      let accountsUrl = this.accountsUrl;
+      if (accountsServer) {
+        // Only ever send the client secret to a known Zoho accounts server
+        const region = findRegionByAccountsUrl(accountsServer);
+        if (!region) {
+          throw new Error(`Unknown Zoho accounts server "${accountsServer}"`);
+        }
+        if (region !== this.region) {
+          logger.warn(`Connection "${this.connection.name}" is configured for region "${this.region}", but the user authorized on the "${region}" data center`);
+        }
+        accountsUrl = ZOHO_DATA_CENTERS[region].accountsUrl;
+      }
+
+      const tokenUrl = `${accountsUrl}/oauth/v2/token`;
       
       const response = await axios.post(tokenUrl, null, {
         params: {
@@ -60,6 +102,7 @@ export class OAuthHandler {
           client_secret: this.clientSecret,
           redirect_uri: this.redirectUri,
           code: code,
+          code_verifier: codeVerifier,
           grant_type: 'authorization_code'
         },
         headers: {
@@ -67,11 +110,21 @@ export class OAuthHandler {
         },
       });
 
-      const tokens: ZohoAuthTokens = response.data;
+      if (response.data.error) {
+        throw new Error(response.data.error);
+      }
+
+      const tokens: ZohoAuthTokens = { ...response.data, accounts_server: accountsUrl };
+      if (tokens.api_domain && !findRegionByApiDomain(tokens.api_domain)) {
+        logger.warn(`Ignoring unexpected api_domain "${tokens.api_domain}" in token response`);
+        delete tokens.api_domain;
+      }
+
       logger.info('Successfully exchanged code for tokens', {
         hasRefreshToken: !!tokens.refresh_token,
         hasAccessToken: !!tokens.access_token,
-        expiresIn: tokens.expires_in
+        expiresIn: tokens.expires_in,
+        apiDomain: tokens.api_domain
       });
       
       return tokens;
@@ -86,33 +139,53 @@ export class OAuthHandler {
   }
 
   /**
-   * Save tokens to tokens.json file
+   * Look up the Zoho user who authorized a grant
    */
-  async saveTokensToEnv(tokens: ZohoAuthTokens): Promise<void> {
+  async getCurrentUser(tokens: ZohoAuthTokens): Promise<ZohoUserProfile> {
     try {
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      
-      const tokensPath = path.join(process.cwd(), 'tokens.json');
-      
-      // Create tokens object with expiration
-      const tokenData = {
+      const response = await axios.get(`${tokens.api_domain ?? this.connection.baseUrl}/crm/v3/users`, {
+        params: { type: 'CurrentUser' },
+        headers: { Authorization: `Zoho-oauthtoken ${tokens.access_token}` },
+      });
+
+      const user = response.data?.users?.[0];
+      if (!user?.id) {
+        throw new Error('Zoho did not return the current user');
+      }
+      return { id: String(user.id), email: user.email ?? '', full_name: user.full_name ?? '' };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new ZohoApiClientError(
+        `Failed to identify the authorizing Zoho user: ${errorMessage}`,
+        502,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Save tokens to the token store (the connection's own store unless another is given).
+   * The API client listens to the store, so new tokens take effect without a restart.
+   */
+  async saveTokens(tokens: ZohoAuthTokens, tokenStore: TokenStore = this.tokenStore): Promise<void> {
+    try {
+      await tokenStore.save({
         refresh_token: tokens.refresh_token,
         access_token: tokens.access_token,
         expires_at: new Date(Date.now() + (tokens.expires_in * 1000)).toISOString(),
         created_at: new Date().toISOString(),
-        token_type: tokens.token_type || 'Bearer'
-      };
-
-      // Write tokens to JSON file
-      await fs.writeFile(tokensPath, JSON.stringify(tokenData, null, 2), 'utf-8');
+        token_type: tokens.token_type || 'Bearer',
+        // Remember where the tokens came from, so API calls and refreshes go to the right data center
+        ...(tokens.api_domain ? { api_domain: tokens.api_domain } : {}),
+        ...(tokens.accounts_server ? { accounts_server: tokens.accounts_server } : {})
+      });
       
-      logger.info('Tokens saved to tokens.json file successfully');
+      logger.info(`Tokens saved to ${tokenStore.kind} token store successfully`);
       
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new ZohoApiClientError(
-        `Failed to save tokens to tokens.json file: ${errorMessage}`,
+        `Failed to save tokens to ${tokenStore.kind} token store: ${errorMessage}`,
         500,
         { originalError: error }
       );
@@ -120,37 +193,13 @@ export class OAuthHandler {
   }
 
   /**
-   * Get stored tokens from .env file
+   * Get stored tokens from the token store
    */
-  async getStoredTokens(): Promise<{ access_token?: string; refresh_token?: string; expires_at?: string } | null> {
+  async getStoredTokens(): Promise<StoredTokens | null> {
     try {
-      const envPath = path.join(process.cwd(), '.env');
-      const envContent = await fs.readFile(envPath, 'utf-8');
-      
-      const tokens: { access_token?: string; refresh_token?: string; expires_at?: string } = {};
-      
-      // Parse .env file
-      const lines = envContent.split('\n');
-      for (const line of lines) {
-        const [key, value] = line.split('=');
-        if (key && value) {
-          switch (key.trim()) {
-            case 'ZOHO_ACCESS_TOKEN':
-              tokens.access_token = value.trim();
-              break;
-            case 'ZOHO_REFRESH_TOKEN':
-              tokens.refresh_token = value.trim();
-              break;
-            case 'ZOHO_TOKEN_EXPIRES_AT':
-              tokens.expires_at = value.trim();
-              break;
-          }
-        }
-      }
-
-      return Object.keys(tokens).length > 0 ? tokens : null;
+      return await this.tokenStore.load();
     } catch (error) {
-      logger.warn('Could not read stored tokens from .env file');
+      logger.warn(`Could not read stored tokens from ${this.tokenStore.kind} token store`);
       return null;
     }
   }
@@ -158,7 +207,7 @@ export class OAuthHandler {
   /**
    * Check if tokens are valid and not expired
    */
-  isTokenValid(tokens: { access_token?: string; refresh_token?: string; expires_at?: string }): boolean {
+  isTokenValid(tokens: StoredTokens): boolean {
     if (!tokens.access_token || !tokens.refresh_token || !tokens.expires_at) {
       return false;
     }
@@ -178,20 +227,13 @@ export class OAuthHandler {
   /**
    * Get OAuth status and instructions
    */
-  async getOAuthStatus(): Promise<{ isConfigured: boolean; hasTokens: boolean; instructions: string; redirectUri: string }> {
+  async getOAuthStatus(): Promise<{ isConfigured: boolean; hasTokens: boolean; instructions: string; redirectUri: string; scopes: string[] }> {
     const isConfigured = !!(this.clientId && this.clientSecret);
     
-    // Check for tokens in tokens.json file
-    let hasTokens = false;
-    try {
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      const tokensPath = path.join(process.cwd(), 'tokens.json');
-      await fs.access(tokensPath);
-      hasTokens = true;
-    } catch (error) {
-      hasTokens = false;
-    }
+    // Check for a refresh token in the token store
+    const storedTokens = await this.getStoredTokens();
+    const hasTokens = !!storedTokens?.refresh_token;
+    const authorizeUrl = `${config.oauthBaseUrl}/oauth/authorize`;
     
     let instructions = '';
     
@@ -200,17 +242,17 @@ export class OAuthHandler {
 OAuth is not configured. Please:
 1. Set ZOHO_CLIENT_ID and ZOHO_CLIENT_SECRET in your .env file
 2. Restart the server
-3. Visit https://nazareno-zcrm-mcp.interconnecta.ai/oauth/authorize to complete OAuth flow
+3. Visit ${authorizeUrl} to complete OAuth flow
 
 Required Zoho OAuth Setup:
-- Redirect URI: https://nazareno-zcrm-mcp.interconnecta.ai/oauth/callback
-- Scopes: ZohoCRM.modules.ALL, ZohoCRM.users.ALL, ZohoCRM.settings.ALL
+- Redirect URI: ${this.redirectUri}
+- Scopes: ${this.scopes.join(', ')}
 - OAuth Flow: Server-based (not self-client)
       `.trim();
     } else if (!hasTokens) {
       instructions = `
 OAuth is configured but no tokens found. Please:
-1. Visit https://nazareno-zcrm-mcp.interconnecta.ai/oauth/authorize to complete OAuth flow
+1. Visit ${authorizeUrl} to complete OAuth flow
 2. After authorization, refresh token will be saved automatically
 3. Server will use refresh token to get access tokens for API calls
 
@@ -228,7 +270,8 @@ OAuth Flow:
       isConfigured,
       hasTokens,
       instructions,
-      redirectUri: `https://nazareno-zcrm-mcp.interconnecta.ai/oauth/callback`
+      redirectUri: this.redirectUri,
+      scopes: this.scopes
     };
   }
 }
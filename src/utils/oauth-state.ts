@@ -0,0 +1,140 @@
+/**
+ * OAuth State
+ * Signed, expiring, single-use `state` values for the Zoho authorization flow,
+ * bound to the browser that started it, and the PKCE verifier derived from them
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+import { ZohoMcpError } from '../types/index.js';
+
+/**
+ * How long an authorization started at /oauth/authorize may take to come back
+ */
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Cookie holding the nonce of the flow this browser started
+ */
+export const OAUTH_NONCE_COOKIE = 'zcrm_oauth_nonce';
+
+export type OAuthFlowMode = 'connection' | 'user';
+
+interface OAuthStatePayload {
+  connection: string;
+  mode: OAuthFlowMode;
+  nonce: string;
+  expires_at: number;
+}
+
+export interface OAuthFlowStart {
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+export interface VerifiedOAuthState {
+  connection: string;
+  mode: OAuthFlowMode;
+  codeVerifier: string;
+}
+
+function invalidState(message: string): ZohoMcpError {
+  return new ZohoMcpError(`Invalid OAuth state: ${message}. Start the authorization again`, 'INVALID_OAUTH_STATE', 400);
+}
+
+/**
+ * OAuth State Manager Class
+ */
+export class OAuthStateManager {
+  private readonly secret: Buffer;
+  private usedNonces = new Map<string, number>();
+
+  constructor(secret: string | undefined = config.zoho.stateSecret) {
+    if (!secret) {
+      logger.warn('OAUTH_STATE_SECRET is not set; authorizations in progress will not survive a restart');
+    }
+    this.secret = secret ? Buffer.from(secret, 'utf-8') : randomBytes(32);
+  }
+
+  private sign(value: string): Buffer {
+    return createHmac('sha256', this.secret).update(value).digest();
+  }
+
+  /**
+   * The PKCE code verifier is derived from the nonce, so nothing has to be kept
+   * server-side between the redirect and the callback
+   */
+  private codeVerifier(nonce: string): string {
+    return this.sign(`pkce:${nonce}`).toString('base64url');
+  }
+
+  /**
+   * Start an authorization: a signed state, the nonce to set as a cookie and the PKCE challenge
+   */
+  create(connection: string, mode: OAuthFlowMode): OAuthFlowStart {
+    const payload: OAuthStatePayload = {
+      connection,
+      mode,
+      nonce: randomBytes(16).toString('base64url'),
+      expires_at: Date.now() + OAUTH_STATE_TTL_MS,
+    };
+
+    const encoded = Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+    const codeChallenge = createHash('sha256').update(this.codeVerifier(payload.nonce)).digest('base64url');
+
+    return {
+      state: `${encoded}.${this.sign(encoded).toString('base64url')}`,
+      nonce: payload.nonce,
+      codeChallenge,
+    };
+  }
+
+  /**
+   * Check a state returned to the callback: signature, expiry, the browser's nonce
+   * cookie and single use. Returns the flow it belongs to and the PKCE code verifier.
+   */
+  verify(state: string, cookieNonce: string | undefined): VerifiedOAuthState {
+    const [encoded = '', signature = ''] = state.split('.');
+    const expected = this.sign(encoded);
+    const presented = Buffer.from(signature, 'base64url');
+    if (!encoded || presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+      throw invalidState('signature mismatch');
+    }
+
+    let payload: OAuthStatePayload;
+    try {
+      payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')) as OAuthStatePayload;
+    } catch {
+      throw invalidState('malformed state');
+    }
+
+    const now = Date.now();
+    if (payload.expires_at < now) {
+      throw invalidState('the authorization took too long');
+    }
+    if (!cookieNonce || cookieNonce !== payload.nonce) {
+      throw invalidState('the authorization was started from another browser');
+    }
+
+    for (const [nonce, expiresAt] of this.usedNonces) {
+      if (expiresAt < now) {
+        this.usedNonces.delete(nonce);
+      }
+    }
+    if (this.usedNonces.has(payload.nonce)) {
+      throw invalidState('the authorization was already completed');
+    }
+    this.usedNonces.set(payload.nonce, payload.expires_at);
+
+    return {
+      connection: payload.connection,
+      mode: payload.mode,
+      codeVerifier: this.codeVerifier(payload.nonce),
+    };
+  }
+}
+
+// Export singleton instance
+export const oauthStateManager = new OAuthStateManager();
@@ -0,0 +1,205 @@
+/**
+ * Request Scheduler
+ * Keeps requests to a Zoho CRM organization within its concurrency and rate limits,
+ * and tracks the API limits Zoho reports in response headers
+ */
+
+import { config, DEFAULT_CONNECTION } from '../config/index.js';
+import { logger } from './logger.js';
+import type { ApiCreditStatus, RequestSchedulerStatus } from '../types/index.js';
+
+export interface RequestSchedulerOptions {
+  /** Requests sent to Zoho at the same time */
+  maxConcurrent: number;
+  /** Requests allowed per window (the token bucket's capacity) */
+  maxRequests: number;
+  /** Time the bucket takes to refill completely */
+  windowMs: number;
+}
+
+type ResponseHeaders = Record<string, unknown>;
+
+/**
+ * Zoho's reset header has been an epoch time in milliseconds or seconds, or seconds from now
+ */
+function resetTime(value: number): Date {
+  if (value > 1e12) {
+    return new Date(value);
+  }
+  return new Date(value > 1e9 ? value * 1000 : Date.now() + value * 1000);
+}
+
+function readNumberHeader(headers: ResponseHeaders, name: string): number | null {
+  const value = Number(headers[name]);
+  return headers[name] !== undefined && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Request Scheduler Class
+ */
+export class RequestScheduler {
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private throttledResponses = 0;
+  private retriedRequests = 0;
+  private credits: ApiCreditStatus = {
+    limit: null,
+    remaining: null,
+    reset_at: null,
+    updated_at: null,
+  };
+
+  constructor(
+    private readonly name: string,
+    private readonly options: RequestSchedulerOptions = config.rateLimit
+  ) {
+    this.tokens = options.maxRequests;
+  }
+
+  /**
+   * Run a request once a concurrency slot and a rate limit token are available
+   */
+  async run<T>(request: () => Promise<T>): Promise<T> {
+    await new Promise<void>((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+
+    try {
+      return await request();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  /**
+   * Hold every queued request of this organization, e.g. after Zoho answered 429
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Count a request that is sent again after a throttled or failed response
+   */
+  recordRetry(throttled: boolean): void {
+    this.retriedRequests++;
+    if (throttled) {
+      this.throttledResponses++;
+    }
+  }
+
+  /**
+   * Track the limits Zoho reports in X-RATELIMIT-* response headers
+   */
+  recordResponse(headers: ResponseHeaders | undefined): void {
+    if (!headers) {
+      return;
+    }
+
+    const limit = readNumberHeader(headers, 'x-ratelimit-limit');
+    const remaining = readNumberHeader(headers, 'x-ratelimit-remaining');
+    const reset = readNumberHeader(headers, 'x-ratelimit-reset');
+    if (limit === null && remaining === null) {
+      return;
+    }
+
+    this.credits = {
+      limit: limit ?? this.credits.limit,
+      remaining: remaining ?? this.credits.remaining,
+      reset_at: reset !== null ? resetTime(reset).toISOString() : this.credits.reset_at,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (remaining !== null && limit !== null && remaining <= limit * 0.05) {
+      logger.warn(`Zoho API limit nearly used up for connection "${this.name}": ${remaining} of ${limit} remaining`);
+    }
+  }
+
+  /**
+   * Report queue, rate limit and API credit state, for health checks
+   */
+  getStatus(): RequestSchedulerStatus {
+    this.refill();
+    return {
+      active_requests: this.active,
+      queued_requests: this.queue.length,
+      max_concurrent: this.options.maxConcurrent,
+      available_tokens: Math.floor(this.tokens),
+      paused_until: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+      throttled_responses: this.throttledResponses,
+      retried_requests: this.retriedRequests,
+      api_credits: { ...this.credits },
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const rate = this.options.maxRequests / this.options.windowMs;
+    this.tokens = Math.min(this.options.maxRequests, this.tokens + (now - this.lastRefill) * rate);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Start queued requests while slots and tokens allow, otherwise wake up when they will
+   */
+  private drain(): void {
+    while (this.queue.length > 0 && this.active < this.options.maxConcurrent) {
+      this.refill();
+
+      const now = Date.now();
+      const tokenWait = this.tokens >= 1 ? 0 : (1 - this.tokens) * (this.options.windowMs / this.options.maxRequests);
+      const wait = Math.max(this.pausedUntil - now, tokenWait);
+      if (wait > 0) {
+        if (!this.timer) {
+          this.timer = setTimeout(() => {
+            this.timer = null;
+            this.drain();
+          }, Math.ceil(wait));
+        }
+        return;
+      }
+
+      this.tokens -= 1;
+      this.active++;
+      this.queue.shift()?.();
+    }
+  }
+}
+
+// Zoho applies its limits per organization, so clients of the same connection share one scheduler
+const schedulers = new Map<string, RequestScheduler>();
+
+/**
+ * Get the request scheduler of a connection
+ */
+export function getRequestScheduler(connection: string = DEFAULT_CONNECTION): RequestScheduler {
+  let scheduler = schedulers.get(connection);
+  if (!scheduler) {
+    scheduler = new RequestScheduler(connection);
+    schedulers.set(connection, scheduler);
+  }
+  return scheduler;
+}
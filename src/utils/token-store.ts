@@ -0,0 +1,224 @@
+/**
+ * Token Stores
+ * Persist OAuth tokens in a JSON file, in memory or in SQLite
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import type Database from 'better-sqlite3';
+import { config, DEFAULT_CONNECTION } from '../config/index.js';
+import { logger } from './logger.js';
+import {
+  ConfigurationError,
+  type StoredTokens,
+  type TokenStore,
+  type TokenStoreListener,
+} from '../types/index.js';
+
+/**
+ * Shared change notification for all token stores
+ */
+abstract class BaseTokenStore implements TokenStore {
+  abstract readonly kind: TokenStore['kind'];
+  private listeners = new Set<TokenStoreListener>();
+
+  abstract load(): Promise<StoredTokens | null>;
+  protected abstract write(tokens: StoredTokens | null): Promise<void>;
+
+  async save(tokens: StoredTokens): Promise<void> {
+    await this.write(tokens);
+    this.notify(tokens);
+  }
+
+  async clear(): Promise<void> {
+    await this.write(null);
+    this.notify(null);
+  }
+
+  onChange(listener: TokenStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(tokens: StoredTokens | null): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(tokens);
+      } catch (error) {
+        logger.warn('Token store listener failed:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Stores tokens in a JSON file.
+ * Writes go to a temporary file that is renamed over the target, so readers
+ * never see a partially written file.
+ */
+export class FileTokenStore extends BaseTokenStore {
+  readonly kind = 'file' as const;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    try {
+      const data = await fs.readFile(this.filePath, 'utf-8');
+      return JSON.parse(data) as StoredTokens;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Could not read tokens from ${this.filePath}:`, error);
+      }
+      return null;
+    }
+  }
+
+  protected write(tokens: StoredTokens | null): Promise<void> {
+    // Serialize writes so a slower earlier write cannot overwrite a newer one
+    const run = async (): Promise<void> => {
+      if (tokens === null) {
+        await fs.rm(this.filePath, { force: true });
+        return;
+      }
+
+      const tempPath = `${this.filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+      try {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(tokens, null, 2), { encoding: 'utf-8', mode: 0o600 });
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+      }
+    };
+
+    this.pendingWrite = this.pendingWrite.then(run, run);
+    return this.pendingWrite;
+  }
+}
+
+/**
+ * Keeps tokens in process memory only; they are lost on restart
+ */
+export class MemoryTokenStore extends BaseTokenStore {
+  readonly kind = 'memory' as const;
+  private tokens: StoredTokens | null = null;
+
+  async load(): Promise<StoredTokens | null> {
+    return this.tokens ? { ...this.tokens } : null;
+  }
+
+  protected async write(tokens: StoredTokens | null): Promise<void> {
+    this.tokens = tokens ? { ...tokens } : null;
+  }
+}
+
+/**
+ * Stores tokens in a SQLite database, one row per key.
+ * Requires the optional better-sqlite3 dependency.
+ */
+export class SqliteTokenStore extends BaseTokenStore {
+  readonly kind = 'sqlite' as const;
+  private db: Promise<Database.Database> | null = null;
+
+  constructor(private readonly dbPath: string, private readonly key: string = 'default') {
+    super();
+  }
+
+  private open(): Promise<Database.Database> {
+    if (!this.db) {
+      this.db = (async () => {
+        let DatabaseConstructor: typeof Database;
+        try {
+          DatabaseConstructor = (await import('better-sqlite3')).default;
+        } catch (error) {
+          throw new ConfigurationError(
+            'TOKEN_STORE=sqlite requires the better-sqlite3 package. Install it with "npm install better-sqlite3"',
+            { originalError: error }
+          );
+        }
+
+        await fs.mkdir(path.dirname(this.dbPath), { recursive: true });
+        const db = new DatabaseConstructor(this.dbPath);
+        db.pragma('journal_mode = WAL');
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS oauth_tokens (
+            key TEXT PRIMARY KEY,
+            data TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+          )
+        `);
+        return db;
+      })();
+    }
+    return this.db;
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    const db = await this.open();
+    const row = db.prepare('SELECT data FROM oauth_tokens WHERE key = ?').get(this.key) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as StoredTokens) : null;
+  }
+
+  protected async write(tokens: StoredTokens | null): Promise<void> {
+    const db = await this.open();
+    if (tokens === null) {
+      db.prepare('DELETE FROM oauth_tokens WHERE key = ?').run(this.key);
+      return;
+    }
+
+    db.prepare(`
+      INSERT INTO oauth_tokens (key, data, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `).run(this.key, JSON.stringify(tokens), new Date().toISOString());
+  }
+}
+
+/**
+ * Token stores by connection name, so every user of a connection shares one store
+ */
+const tokenStores = new Map<string, TokenStore>();
+
+/**
+ * Create the token store selected by TOKEN_STORE / TOKEN_STORE_PATH for a connection.
+ * The default connection uses the configured path as is; other connections get
+ * their own file (tokens.<name>.json) or their own row in the SQLite database.
+ */
+export function createTokenStore(connection: string = DEFAULT_CONNECTION): TokenStore {
+  const { type, path: storePath } = config.tokenStore;
+
+  switch (type) {
+    case 'memory':
+      return new MemoryTokenStore();
+    case 'sqlite':
+      return new SqliteTokenStore(path.resolve(storePath || 'tokens.db'), connection);
+    case 'file':
+    default: {
+      const filePath = path.resolve(storePath || 'tokens.json');
+      if (connection === DEFAULT_CONNECTION) {
+        return new FileTokenStore(filePath);
+      }
+      const { dir, name, ext } = path.parse(filePath);
+      return new FileTokenStore(path.join(dir, `${name}.${connection}${ext || '.json'}`));
+    }
+  }
+}
+
+/**
+ * Get the shared token store of a connection
+ */
+export function getTokenStore(connection: string = DEFAULT_CONNECTION): TokenStore {
+  let store = tokenStores.get(connection);
+  if (!store) {
+    store = createTokenStore(connection);
+    tokenStores.set(connection, store);
+  }
+  return store;
+}
+
+// Export singleton instance for the default connection
+export const tokenStore = getTokenStore();
@@ -0,0 +1,123 @@
+/**
+ * Tool Errors
+ * Classifies errors raised by tools (auth required, invalid module or field, rate limited,
+ * not found, permission denied) and returns them as MCP tool results flagged with isError
+ */
+
+import type { ContentResult } from 'fastmcp';
+import { config } from '../config/index.js';
+import {
+  AuthRequiredError,
+  InvalidFieldError,
+  InvalidModuleError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitedError,
+  ZohoApiClientError,
+  ZohoMcpError,
+  type McpSessionAuth,
+} from '../types/index.js';
+
+/**
+ * Error body returned by the Zoho CRM API
+ */
+interface ZohoErrorBody {
+  code?: string;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Zoho error codes for requests the OAuth grant or the user's profile does not allow
+ */
+const PERMISSION_ERROR_CODES = new Set(['OAUTH_SCOPE_MISMATCH', 'NO_PERMISSION']);
+
+/**
+ * Where the caller can authorize the connection, or link their own Zoho account
+ */
+function authorizeUrl(session: McpSessionAuth, connection?: string): string {
+  const params = new URLSearchParams();
+  const target = connection ?? session?.connection;
+  if (session?.user_id && (!connection || connection === session.connection)) {
+    params.set('mode', 'user');
+  }
+  if (target) {
+    params.set('connection', target);
+  }
+  const query = params.toString();
+  return `${config.oauthBaseUrl}/oauth/authorize${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Map an error to the error taxonomy. Errors from the Zoho API are classified by
+ * HTTP status and Zoho error code, keeping Zoho's code, message and details.
+ */
+export function classifyError(error: unknown, session: McpSessionAuth, connection?: string): ZohoMcpError {
+  if (!(error instanceof ZohoMcpError)) {
+    return new ZohoMcpError(error instanceof Error ? error.message : 'Unknown error', 'INTERNAL_ERROR', 500);
+  }
+  if (!(error instanceof ZohoApiClientError)) {
+    return error;
+  }
+
+  // The raw response and the underlying axios error are not serializable; keep what Zoho said
+  const { response, originalError: _originalError, ...rest } = error.details ?? {};
+  const body: ZohoErrorBody = response && typeof response === 'object' ? response : {};
+  const details: Record<string, unknown> = { ...rest };
+  if (body.code) {
+    details.zoho = { code: body.code, message: body.message, details: body.details };
+  }
+
+  const status = error.statusCode;
+  const apiName = body.details?.api_name;
+  if (status === 429) {
+    return new RateLimitedError(error.message, details);
+  }
+  if (status === 403 || PERMISSION_ERROR_CODES.has(body.code ?? '')) {
+    return new PermissionDeniedError(error.message, details);
+  }
+  if (status === 401) {
+    return new AuthRequiredError(error.message, `Authorize Zoho access at ${authorizeUrl(session, connection)}`, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(error.message, details);
+  }
+  if (body.code === 'INVALID_MODULE') {
+    return new InvalidModuleError(error.message, details);
+  }
+  if (typeof apiName === 'string') {
+    return new InvalidFieldError(`${error.message} (${apiName})`, details);
+  }
+  return new ZohoApiClientError(error.message, status, details);
+}
+
+/**
+ * Words of tool names written in capitals in error messages
+ */
+const ACRONYMS = new Set(['coql']);
+
+/**
+ * Name the action of a tool for its error messages: execute_coql becomes "Execute COQL"
+ */
+export function toolAction(toolName: string): string {
+  const words = toolName.split('_').map((word) => (ACRONYMS.has(word) ? word.toUpperCase() : word));
+  const action = words.join(' ');
+  return action.charAt(0).toUpperCase() + action.slice(1);
+}
+
+/**
+ * Build the result of a failed tool call: the classified error as JSON, flagged with isError
+ */
+export function toolError(action: string, error: unknown, session: McpSessionAuth, connection?: string): ContentResult {
+  const { code, message, statusCode, hint, details } = classifyError(error, session, connection);
+  const body = {
+    error: {
+      code,
+      message: `${action} failed: ${message}`,
+      status: statusCode,
+      ...(hint ? { hint } : {}),
+      ...(details && Object.keys(details).length > 0 ? { details } : {}),
+    },
+  };
+  return { content: [{ type: 'text', text: JSON.stringify(body, null, 2) }], isError: true };
+}
@@ -0,0 +1,170 @@
+/**
+ * Tracing
+ * Optional OpenTelemetry spans for tool calls, Zoho CRM API requests and token refreshes,
+ * exported over OTLP, to a JSON lines file or to the console (TRACING_EXPORTER)
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { SpanKind, SpanStatusCode, trace, type Attributes, type Span } from '@opentelemetry/api';
+import { ExportResultCode, hrTimeToMilliseconds, type ExportResult } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+import { isToolFailure } from './metrics.js';
+
+const TRACER_NAME = 'zoho-crm-mcp-server';
+
+/**
+ * Error code of a failed tool result, as built by toolError
+ */
+function toolErrorCode(result: unknown): string {
+  const text = (result as { content?: Array<{ text?: unknown }> }).content?.[0]?.text;
+  try {
+    return String(JSON.parse(String(text)).error.code);
+  } catch {
+    return 'Tool returned an error';
+  }
+}
+
+/**
+ * Appends finished spans to a file, one JSON object per line
+ */
+class FileSpanExporter implements SpanExporter {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const lines = spans.map((span) => JSON.stringify({
+      trace_id: span.spanContext().traceId,
+      span_id: span.spanContext().spanId,
+      parent_span_id: span.parentSpanContext?.spanId ?? null,
+      name: span.name,
+      kind: SpanKind[span.kind],
+      start_time: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+      duration_ms: hrTimeToMilliseconds(span.duration),
+      status: SpanStatusCode[span.status.code],
+      status_message: span.status.message ?? null,
+      attributes: span.attributes,
+    })).join('\n');
+
+    this.pendingWrite = this.pendingWrite
+      .then(() => fs.appendFile(this.filePath, `${lines}\n`, 'utf-8'))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (error: Error) => resultCallback({ code: ExportResultCode.FAILED, error })
+      );
+  }
+
+  async shutdown(): Promise<void> {
+    await this.pendingWrite;
+  }
+}
+
+/**
+ * Tracing Class
+ */
+export class Tracing {
+  private provider: NodeTracerProvider | null = null;
+
+  /**
+   * Register the tracer provider for the configured exporter. Without one,
+   * spans are no-ops.
+   */
+  start(): void {
+    const { exporter: exporterKind, otlpEndpoint, file, serviceName } = config.tracing;
+    if (exporterKind === 'none' || this.provider) {
+      return;
+    }
+
+    let exporter: SpanExporter;
+    switch (exporterKind) {
+      case 'otlp':
+        exporter = new OTLPTraceExporter(otlpEndpoint ? { url: `${otlpEndpoint.replace(/\/+$/, '')}/v1/traces` } : {});
+        break;
+      case 'file':
+        exporter = new FileSpanExporter(path.resolve(file));
+        break;
+      case 'console':
+        exporter = new ConsoleSpanExporter();
+        break;
+    }
+
+    this.provider = new NodeTracerProvider({
+      resource: resourceFromAttributes({
+        [ATTR_SERVICE_NAME]: serviceName,
+        [ATTR_SERVICE_VERSION]: config.mcp.serverVersion,
+      }),
+      // Export test exporters span by span so traces show up right away
+      spanProcessors: [exporterKind === 'otlp' ? new BatchSpanProcessor(exporter) : new SimpleSpanProcessor(exporter)],
+    });
+    this.provider.register();
+    logger.info(`Tracing enabled with the ${exporterKind} exporter`);
+  }
+
+  /**
+   * Flush pending spans and stop exporting
+   */
+  async shutdown(): Promise<void> {
+    try {
+      await this.provider?.shutdown();
+    } catch (error) {
+      logger.warn('Could not flush traces:', error);
+    }
+  }
+
+  /**
+   * Run a function inside a new active span, ending it when the function settles.
+   * Thrown errors mark the span as failed.
+   */
+  async withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>, kind: SpanKind = SpanKind.INTERNAL): Promise<T> {
+    return trace.getTracer(TRACER_NAME).startActiveSpan(name, { kind, attributes }, async (span) => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        span.recordException(error instanceof Error ? error : String(error));
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Wrap a tool's execute function in a span named after the tool
+   */
+  instrumentTool<A extends [unknown, ...unknown[]], R>(tool: string, execute: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+    return (...args: A) => {
+      const params = (args[0] ?? {}) as Record<string, unknown>;
+      const attributes: Attributes = { 'mcp.tool.name': tool };
+      for (const [param, attribute] of [['module', 'zoho.module'], ['connection', 'zoho.connection']] as const) {
+        if (typeof params[param] === 'string') {
+          attributes[attribute] = params[param];
+        }
+      }
+
+      return this.withSpan(`tool ${tool}`, attributes, async (span) => {
+        const result = await execute(...args);
+        if (isToolFailure(result)) {
+          span.setStatus({ code: SpanStatusCode.ERROR, message: toolErrorCode(result) });
+        }
+        return result;
+      });
+    };
+  }
+}
+
+// Export singleton instance
+export const tracing = new Tracing();
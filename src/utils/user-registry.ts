@@ -0,0 +1,208 @@
+/**
+ * User Registry
+ * People who linked their own Zoho account, the personal access keys that identify
+ * them to the MCP endpoint, and the per-user CRM clients that act on their behalf
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+import { connectionRegistry } from './connection-registry.js';
+import { getTokenStore } from './token-store.js';
+import { getMetadataCache } from './metadata-cache.js';
+import { ZohoCRMClient } from './zoho-crm-client.js';
+import {
+  AuthRequiredError,
+  PermissionDeniedError,
+  type LinkedUser,
+  type McpSessionAuth,
+} from '../types/index.js';
+
+/**
+ * Prefix of personal access keys, so leaked keys are easy to recognize
+ */
+export const ACCESS_KEY_PREFIX = 'zcrm_';
+
+function hashAccessKey(accessKey: string): string {
+  return createHash('sha256').update(accessKey).digest('hex');
+}
+
+/**
+ * User Registry Class
+ */
+export class UserRegistry {
+  private users = new Map<string, LinkedUser>();
+  private clients = new Map<string, ZohoCRMClient>();
+  private loaded: Promise<void> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * Load linked users from the users file
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const data = await fs.readFile(path.resolve(config.userAuth.usersFile), 'utf-8');
+          for (const user of JSON.parse(data) as LinkedUser[]) {
+            this.users.set(user.id, user);
+          }
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            logger.warn(`Could not read users from ${config.userAuth.usersFile}:`, error);
+          }
+        }
+        logger.info(`Linked users: ${this.users.size}`);
+      })();
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Write the users file. Writes run one at a time so they never share the temp file.
+   */
+  private persist(): Promise<void> {
+    const write = this.pendingWrite.then(async () => {
+      const filePath = path.resolve(config.userAuth.usersFile);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify([...this.users.values()], null, 2), { encoding: 'utf-8', mode: 0o600 });
+      await fs.rename(tempPath, filePath);
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Complete a user-mode OAuth grant: identify the Zoho user, store their tokens and
+   * issue a new personal access key. Linking again rotates the key.
+   * The key is only returned here; the registry keeps its hash.
+   */
+  async linkUser(connection: string, code: string, codeVerifier: string, accountsServer?: string): Promise<{ user: LinkedUser; accessKey: string }> {
+    await this.load();
+    const oauthHandler = connectionRegistry.getOAuthHandler(connection);
+    const tokens = await oauthHandler.exchangeCodeForTokens(code, codeVerifier, accountsServer);
+    const profile = await oauthHandler.getCurrentUser(tokens);
+
+    const id = `${connection}:${profile.id}`;
+    const tokenStoreKey = `${connection}.user.${profile.id}`;
+    await oauthHandler.saveTokens(tokens, getTokenStore(tokenStoreKey));
+
+    const accessKey = `${ACCESS_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const now = new Date().toISOString();
+    const user: LinkedUser = {
+      id,
+      connection,
+      zoho_user_id: profile.id,
+      email: profile.email,
+      name: profile.full_name,
+      token_store_key: tokenStoreKey,
+      access_key_hash: hashAccessKey(accessKey),
+      linked_at: this.users.get(id)?.linked_at ?? now,
+      updated_at: now,
+    };
+
+    this.users.set(id, user);
+    await this.persist();
+    logger.info(`Linked Zoho user ${user.email || user.zoho_user_id} on connection "${connection}"`);
+
+    return { user, accessKey };
+  }
+
+  /**
+   * Identify the owner of a personal access key
+   */
+  async authenticate(accessKey: string): Promise<McpSessionAuth | null> {
+    await this.load();
+    const hash = hashAccessKey(accessKey);
+    for (const user of this.users.values()) {
+      if (user.access_key_hash === hash) {
+        return {
+          method: 'user_key',
+          subject: user.id,
+          user_id: user.id,
+          connection: user.connection,
+          email: user.email,
+          name: user.name,
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get a linked user by ID
+   */
+  getUser(id: string): LinkedUser | undefined {
+    return this.users.get(id);
+  }
+
+  /**
+   * Number of linked users
+   */
+  get size(): number {
+    return this.users.size;
+  }
+
+  /**
+   * Get the CRM client for a tool call.
+   * A linked user's calls use their personal token and may only reach their own
+   * connection (the connection defaults to theirs). Other callers use the connection's
+   * shared token, unless USER_AUTH_MODE=required.
+   */
+  getClient(session: McpSessionAuth, connection?: string): ZohoCRMClient {
+    const mode = config.userAuth.mode;
+
+    if (session?.user_id && mode !== 'disabled') {
+      const user = this.users.get(session.user_id);
+      if (!user) {
+        throw new AuthRequiredError(
+          'Your Zoho account link was removed',
+          `Link your Zoho account again at ${config.oauthBaseUrl}/oauth/authorize?mode=user`
+        );
+      }
+
+      const target = connection ?? user.connection;
+      if (target === user.connection) {
+        return this.getUserClient(user);
+      }
+      // A personal key never unlocks another connection's shared token
+      throw new PermissionDeniedError(
+        `Your access key is linked to connection "${user.connection}", not "${target}"`,
+        { connection: target, linked_connection: user.connection },
+        `Link your account on "${target}" at ${config.oauthBaseUrl}/oauth/authorize?mode=user&connection=${encodeURIComponent(target)}`
+      );
+    } else if (mode === 'required') {
+      throw new AuthRequiredError(
+        'Authentication required: send your personal access key as a Bearer token',
+        `Link your Zoho account at ${config.oauthBaseUrl}/oauth/authorize?mode=user to get a personal access key`
+      );
+    }
+
+    return connectionRegistry.getClient(connection);
+  }
+
+  private getUserClient(user: LinkedUser): ZohoCRMClient {
+    let client = this.clients.get(user.id);
+    if (!client) {
+      // Leave out the connection's shared refresh token so the client only ever uses the user's own
+      const { refreshToken: _sharedRefreshToken, ...connection } = connectionRegistry.getConfig(user.connection);
+      client = new ZohoCRMClient(connection, getTokenStore(user.token_store_key), getMetadataCache(user.token_store_key));
+      this.clients.set(user.id, client);
+    }
+    return client;
+  }
+
+  /**
+   * Stop background token renewal on every per-user client
+   */
+  stopTokenRenewal(): void {
+    for (const client of this.clients.values()) {
+      client.stopTokenRenewal();
+    }
+  }
+}
+
+// Export singleton instance
+export const userRegistry = new UserRegistry();
@@ -2,24 +2,139 @@
  * Zoho CRM API Client
  */
 
-import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse } from 'axios';
+import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { SpanKind, type Attributes } from '@opentelemetry/api';
 import { config } from '../config/index.js';
+import { findRegionByAccountsUrl, findRegionByApiDomain } from '../config/data-centers.js';
 import { logger } from './logger.js';
+import { getTokenStore } from './token-store.js';
+import { getRequestScheduler, parseRetryAfter, type RequestScheduler } from './request-scheduler.js';
+import { getMetadataCache, type MetadataCache } from './metadata-cache.js';
+import { metrics, normalizeEndpoint } from './metrics.js';
+import { tracing } from './tracing.js';
+import { buildCriteria, validateCriteria } from './criteria-builder.js';
+import { applyCoqlPaging, findUnknownCoqlFields, getLookupModule, parseCoqlQuery, unknownCoqlModuleError } from './coql.js';
+import { resolveCriteriaFields, resolveFieldNames, resolveModuleName } from './name-resolver.js';
 import { 
+  ZohoMcpError,
   ZohoApiClientError, 
+  NotFoundError,
+  InvalidFieldError,
   type ZohoAuthTokens, 
   type ZohoApiResponse,
+  type StoredTokens,
+  type TokenStore,
+  type TokenHealthStatus,
+  type RequestSchedulerStatus,
+  type ZohoConnectionConfig,
   type CRMModule,
   type CRMRecord,
   type CRMRecordList,
   type CRMModuleInfo,
   type CRMFieldInfo,
+  type CRMRelatedListInfo,
+  type CRMLayoutInfo,
+  type CRMActionResult,
+  type Note,
+  type CRMUpsertActionResult,
+  type UpsertRecordResult,
   type SearchRecordsParams,
   type GetRecordParams,
+  type CreateRecordParams,
+  type UpdateRecordParams,
+  type UpsertRecordsParams,
+  type ConvertLeadParams,
+  type ConvertLeadResult,
+  type CoqlQueryParams,
+  type CoqlQueryResult,
+  type DeleteRecordParams,
+  type GetRelatedListsParams,
+  type ListRelatedRecordsParams,
+  type ListNotesParams,
+  type AddNoteParams,
+  type UpdateNoteParams,
+  type DeleteNoteParams,
+  type ListAttachmentsParams,
+  type UploadAttachmentParams,
+  type DownloadAttachmentParams,
+  type AttachmentDownload,
   type ListModulesParams,
-  type GetModuleFieldsParams
+  type GetModuleFieldsParams,
+  type GetModuleLayoutsParams
 } from '../types/index.js';
 
+/**
+ * Zoho only serves this many records through the `page` parameter
+ */
+const PAGE_NUMBER_RECORD_LIMIT = 2000;
+
+/**
+ * Fields requested when reading notes
+ */
+const NOTE_FIELDS = ['Note_Title', 'Note_Content', 'Parent_Id', 'Owner', 'Created_Time', 'Modified_Time', 'Created_By', 'Modified_By'];
+
+/**
+ * Fields requested when listing attachments
+ */
+const ATTACHMENT_FIELDS = ['File_Name', 'Size', 'Owner', 'Created_Time', 'Modified_Time', 'Created_By', '$link_url', '$type'];
+
+/**
+ * Access tokens are renewed this long before they expire
+ */
+const TOKEN_REFRESH_BUFFER_MS = 5 * 60 * 1000;
+
+/**
+ * Attempts made by a single token refresh before giving up
+ */
+const TOKEN_REFRESH_ATTEMPTS = 3;
+
+/**
+ * Delay before retrying a failed background renewal
+ */
+const TOKEN_RENEWAL_RETRY_MS = 60 * 1000;
+
+/**
+ * Longest Retry-After the client waits out; longer waits (such as exhausted daily
+ * credits) are reported to the caller instead
+ */
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Methods that are safe to send again after a 5xx response
+ */
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'put', 'delete']);
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & { _tokenRetried?: boolean; _retryCount?: number };
+
+/**
+ * Number of records (or settings entries) in a Zoho response body.
+ * JSON bodies are parsed here, before axios would, and handed on parsed.
+ */
+function countRecords(response: AxiosResponse): number | undefined {
+  if (typeof response.data === 'string' && /json/i.test(String(response.headers['content-type']))) {
+    try {
+      response.data = JSON.parse(response.data);
+    } catch {
+      return undefined;
+    }
+  }
+
+  const body: unknown = response.data;
+  if (!body || typeof body !== 'object') {
+    return undefined;
+  }
+  const lists = Object.values(body).filter(Array.isArray);
+  return lists.length === 1 ? (lists[0] as unknown[]).length : undefined;
+}
+
+/**
+ * Randomize a delay between half and the full value, so concurrent
+ * processes do not retry in lockstep
+ */
+function withJitter(ms: number): number {
+  return Math.round(ms / 2 + Math.random() * (ms / 2));
+}
+
 /**
  * Zoho CRM API Client Class
  */
@@ -27,12 +142,37 @@ export class ZohoCRMClient {
   private axiosInstance: AxiosInstance;
   private accessToken: string | null = null;
   private tokenExpiresAt: Date | null = null;
+  private refreshToken: string | null = null;
+  private tokensLoaded: Promise<void>;
+  private refreshInFlight: Promise<void> | null = null;
+  private renewalTimer: NodeJS.Timeout | null = null;
+  private apiDomain: string;
+  private accountsServer: string;
+  private readonly scheduler: RequestScheduler;
+  private tokenStatus: TokenHealthStatus = {
+    last_refresh_at: null,
+    last_refresh_error: null,
+    last_refresh_error_at: null,
+    consecutive_failures: 0,
+    next_renewal_at: null,
+  };
 
-  constructor() {
-    const baseURL = `${config.zoho.baseUrl}/crm/v3`;
+  constructor(
+    private readonly connection: ZohoConnectionConfig = config.connections[0] as ZohoConnectionConfig,
+    private readonly tokenStore: TokenStore = getTokenStore(connection.name),
+    private readonly metadataCache: MetadataCache = getMetadataCache(connection.name)
+  ) {
+    this.refreshToken = this.zoho.refreshToken || null;
+    this.apiDomain = this.zoho.baseUrl;
+    this.accountsServer = this.zoho.accountsUrl;
+    this.scheduler = getRequestScheduler(connection.name);
+
+    // Every HTTP request waits for the organization's scheduler; retries queue again
+    const sendRequest = axios.getAdapter(axios.defaults.adapter);
     
     this.axiosInstance = axios.create({
-      baseURL,
+      baseURL: `${this.apiDomain}/crm/v3`,
+      adapter: (requestConfig) => this.scheduler.run(() => this.sendMeasured(sendRequest, requestConfig)),
       timeout: 30000,
       headers: {
         'Content-Type': 'application/json',
@@ -40,8 +180,10 @@ export class ZohoCRMClient {
       },
     });
 
-    // Load existing tokens from tokens.json if available
-    this.loadStoredTokens();
+    // Load existing tokens from the token store, and pick up tokens saved later
+    // (e.g. by the OAuth callback) without a restart
+    this.tokensLoaded = this.loadStoredTokens();
+    this.tokenStore.onChange((tokens) => this.applyStoredTokens(tokens));
 
     // Request interceptor to add auth token
     this.axiosInstance.interceptors.request.use(
@@ -57,14 +199,58 @@ export class ZohoCRMClient {
 
     // Response interceptor for error handling
     this.axiosInstance.interceptors.response.use(
-      (response) => response,
-      (error) => {
+      (response) => {
+        this.scheduler.recordResponse(response.headers);
+        return response;
+      },
+      async (error) => {
+        const requestConfig = error.config as RetryableRequestConfig | undefined;
+        this.scheduler.recordResponse(error.response?.headers);
+
+        // Back off and replay throttled requests and (idempotent) requests that hit a server error
+        const retryDelay = requestConfig ? this.getRetryDelay(error.response, requestConfig) : null;
+        if (requestConfig && retryDelay !== null) {
+          const throttled = error.response.status === 429;
+          requestConfig._retryCount = (requestConfig._retryCount ?? 0) + 1;
+          this.scheduler.recordRetry(throttled);
+          if (throttled) {
+            // The limit applies to the whole organization, so hold its other requests too
+            this.scheduler.pause(retryDelay);
+          }
+          logger.warn(`Zoho answered HTTP ${error.response.status}, retrying in ${retryDelay}ms`, {
+            url: requestConfig.url,
+            attempt: requestConfig._retryCount,
+          });
+          await new Promise((resolve) => setTimeout(resolve, retryDelay));
+          return this.axiosInstance.request(requestConfig);
+        }
+
+        // Zoho can revoke a token before its expiry; refresh once and replay the request.
+        // A request sent with a token that has been replaced since is only replayed, so late
+        // rejections of the old token do not start more refreshes.
+        if (error.response?.status === 401 && error.response.data?.code === 'INVALID_TOKEN' && requestConfig && !requestConfig._tokenRetried) {
+          requestConfig._tokenRetried = true;
+          const rejectedToken = String(requestConfig.headers?.Authorization ?? '').replace(/^Zoho-oauthtoken\s+/, '');
+          if (rejectedToken === this.accessToken) {
+            logger.warn('Access token rejected by Zoho, refreshing and retrying request', { url: requestConfig.url });
+            this.accessToken = null;
+            await this.refreshAccessToken();
+          }
+          return this.axiosInstance.request(requestConfig);
+        }
+
+        // Errors raised before the request was sent, such as a missing token, are passed on as they are
+        if (error instanceof ZohoMcpError) {
+          throw error;
+        }
+
         if (error.response) {
-          const { status, data } = error.response;
+          const { status, data, headers } = error.response;
+          const retryAfterMs = status === 429 ? parseRetryAfter(headers?.['retry-after']) : null;
           throw new ZohoApiClientError(
             data.message || `HTTP ${status} error`,
             status,
-            { response: data, url: error.config?.url }
+            { response: data, url: error.config?.url, ...(retryAfterMs !== null ? { retry_after_ms: retryAfterMs } : {}) }
           );
         }
         throw new ZohoApiClientError(
@@ -77,41 +263,208 @@ export class ZohoCRMClient {
   }
 
   /**
-   * Load stored tokens from tokens.json file
+   * Send one HTTP request in a client span, and record its status and latency in the metrics
+   */
+  private async sendMeasured(
+    sendRequest: (requestConfig: InternalAxiosRequestConfig) => Promise<AxiosResponse>,
+    requestConfig: InternalAxiosRequestConfig
+  ): Promise<AxiosResponse> {
+    const method = (requestConfig.method ?? 'get').toUpperCase();
+    const endpoint = normalizeEndpoint(requestConfig.url);
+    const module = requestConfig.params?.module ?? endpoint.match(/^\/([A-Z]\w*)/)?.[1];
+    const attributes: Attributes = {
+      'http.request.method': method,
+      'zoho.connection': this.zoho.name,
+      'zoho.endpoint': endpoint,
+      ...(typeof module === 'string' ? { 'zoho.module': module } : {}),
+    };
+
+    return tracing.withSpan(`zoho ${method} ${endpoint}`, attributes, async (span) => {
+      const startTime = Date.now();
+      let status: number | undefined;
+      try {
+        const response = await sendRequest(requestConfig);
+        status = response.status;
+        const recordCount = countRecords(response);
+        if (recordCount !== undefined) {
+          span.setAttribute('zoho.record_count', recordCount);
+        }
+        return response;
+      } catch (error) {
+        status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        throw error;
+      } finally {
+        if (status !== undefined) {
+          span.setAttribute('http.response.status_code', status);
+        }
+        metrics.recordZohoRequest(this.zoho.name, method, requestConfig.url, status, Date.now() - startTime);
+      }
+    }, SpanKind.CLIENT);
+  }
+
+  /**
+   * Delay before replaying a failed request, or null when it should not be retried.
+   * 429 responses are always retried; 5xx responses only for idempotent methods.
+   * Retry-After is honored, otherwise the delay grows exponentially with jitter.
+   */
+  private getRetryDelay(response: AxiosResponse | undefined, requestConfig: RetryableRequestConfig): number | null {
+    if (!response) {
+      return null;
+    }
+
+    const { status } = response;
+    const retryable = status === 429 || (status >= 500 && IDEMPOTENT_METHODS.has(requestConfig.method ?? 'get'));
+    const attempt = requestConfig._retryCount ?? 0;
+    if (!retryable || attempt >= config.rateLimit.maxRetries) {
+      return null;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers['retry-after']);
+    if (retryAfter !== null && retryAfter > MAX_RETRY_DELAY_MS) {
+      return null;
+    }
+    return retryAfter ?? withJitter(1000 * 2 ** (attempt + 1));
+  }
+
+  /**
+   * Report request scheduling and the API limits Zoho last reported, for health checks
+   */
+  getRateLimitStatus(): RequestSchedulerStatus {
+    return this.scheduler.getStatus();
+  }
+
+  /**
+   * Load stored tokens from the token store
    */
   private async loadStoredTokens(): Promise<void> {
     try {
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      
-      const tokensPath = path.join(process.cwd(), 'tokens.json');
-      const tokensData = await fs.readFile(tokensPath, 'utf-8');
-      const tokens = JSON.parse(tokensData);
-      
-      this.accessToken = tokens.access_token || null;
-      if (tokens.expires_at) {
-        this.tokenExpiresAt = new Date(tokens.expires_at);
+      const tokens = await this.tokenStore.load();
+      this.applyStoredTokens(tokens);
+
+      if (tokens) {
+        logger.info(`Loaded tokens for connection "${this.zoho.name}" from ${this.tokenStore.kind} token store`);
       }
-      
-      logger.info('Loaded tokens from tokens.json file');
     } catch (error) {
-      logger.warn('Could not load tokens from tokens.json file:', error);
+      logger.warn(`Could not load tokens from ${this.tokenStore.kind} token store:`, error);
+    }
+  }
+
+  /**
+   * Use tokens read from or saved to the token store.
+   * The refresh token falls back to ZOHO_REFRESH_TOKEN when none is stored.
+   */
+  private applyStoredTokens(tokens: StoredTokens | null): void {
+    this.accessToken = tokens?.access_token || null;
+    this.tokenExpiresAt = tokens?.expires_at ? new Date(tokens.expires_at) : null;
+    this.refreshToken = tokens?.refresh_token || this.zoho.refreshToken || null;
+    this.applyDataCenter(tokens?.api_domain, tokens?.accounts_server);
+    this.scheduleRenewal();
+  }
+
+  /**
+   * Send API calls and token refreshes to the data center the tokens were issued by.
+   * Falls back to the connection's configured endpoints; unknown domains are ignored.
+   */
+  private applyDataCenter(apiDomain: string | undefined, accountsServer: string | undefined): void {
+    const nextApiDomain = apiDomain && findRegionByApiDomain(apiDomain) ? apiDomain.replace(/\/+$/, '') : this.zoho.baseUrl;
+    this.accountsServer = accountsServer && findRegionByAccountsUrl(accountsServer) ? accountsServer : this.zoho.accountsUrl;
+
+    if (nextApiDomain === this.apiDomain) {
+      return;
+    }
+
+    const tokenRegion = findRegionByApiDomain(nextApiDomain);
+    if (tokenRegion && tokenRegion !== this.zoho.region) {
+      logger.warn(`Connection "${this.zoho.name}" is configured for region "${this.zoho.region}", but its tokens belong to the "${tokenRegion}" data center. Using ${nextApiDomain}`);
+    } else {
+      logger.info(`Using API domain ${nextApiDomain} for connection "${this.zoho.name}"`);
+    }
+
+    this.apiDomain = nextApiDomain;
+    this.axiosInstance.defaults.baseURL = `${nextApiDomain}/crm/v3`;
+  }
+
+  /**
+   * API domain the client currently sends requests to
+   */
+  get apiBaseUrl(): string {
+    return this.apiDomain;
+  }
+
+  /**
+   * Schedule a background renewal shortly before the access token expires
+   */
+  private scheduleRenewal(delayMs?: number): void {
+    if (this.renewalTimer) {
+      clearTimeout(this.renewalTimer);
+      this.renewalTimer = null;
+    }
+
+    if (!this.refreshToken) {
+      this.tokenStatus.next_renewal_at = null;
+      return;
+    }
+
+    let delay = delayMs;
+    if (delay === undefined) {
+      if (!this.tokenExpiresAt) {
+        this.tokenStatus.next_renewal_at = null;
+        return;
+      }
+      // Renew inside the buffer window, spread by jitter
+      const renewAt = this.tokenExpiresAt.getTime() - TOKEN_REFRESH_BUFFER_MS - withJitter(60 * 1000);
+      delay = Math.max(0, renewAt - Date.now());
+    }
+
+    this.tokenStatus.next_renewal_at = new Date(Date.now() + delay).toISOString();
+    this.renewalTimer = setTimeout(() => {
+      this.renewalTimer = null;
+      this.refreshAccessToken().catch((error) => {
+        logger.error('Background access token renewal failed:', error);
+        this.scheduleRenewal(withJitter(TOKEN_RENEWAL_RETRY_MS));
+      });
+    }, delay);
+
+    // Do not keep the process alive just for the renewal
+    this.renewalTimer.unref();
+  }
+
+  /**
+   * Stop the background token renewal
+   */
+  stopTokenRenewal(): void {
+    if (this.renewalTimer) {
+      clearTimeout(this.renewalTimer);
+      this.renewalTimer = null;
     }
+    this.tokenStatus.next_renewal_at = null;
+  }
+
+  /**
+   * Report token state and refresh failures, for health checks
+   */
+  getTokenStatus(): TokenHealthStatus & { has_refresh_token: boolean; access_token_expires_at: string | null; refresh_in_flight: boolean } {
+    return {
+      ...this.tokenStatus,
+      has_refresh_token: !!this.refreshToken,
+      access_token_expires_at: this.tokenExpiresAt?.toISOString() ?? null,
+      refresh_in_flight: this.refreshInFlight !== null,
+    };
   }
 
   /**
    * Ensure we have a valid access token
    */
   private async ensureValidToken(): Promise<void> {
-    const now = new Date();
-    
+    await this.tokensLoaded;
+
     // If we have a token that's still valid (with 5 minute buffer), use it
-    if (this.accessToken && this.tokenExpiresAt && now < this.tokenExpiresAt) {
+    if (this.accessToken && this.tokenExpiresAt && Date.now() < this.tokenExpiresAt.getTime() - TOKEN_REFRESH_BUFFER_MS) {
       return;
     }
 
     // If we have a refresh token, use it to get a new access token
-    if (config.zoho.refreshToken) {
+    if (this.refreshToken) {
       await this.refreshAccessToken();
     } else {
       throw new ZohoApiClientError(
@@ -123,70 +476,100 @@ export class ZohoCRMClient {
   }
 
   /**
-   * Refresh the access token using the refresh token
+   * Refresh the access token using the refresh token.
+   * Concurrent callers share one in-flight refresh.
    */
-  private async refreshAccessToken(): Promise<void> {
-    try {
-      const tokenUrl = `https://accounts.zoho.${config.zoho.region}/oauth/v2/token`;
-      
-      const response = await axios.post(tokenUrl, null, {
-        params: {
-          refresh_token: config.zoho.refreshToken,
-          client_id: config.zoho.clientId,
-          client_secret: config.zoho.clientSecret,
-          grant_type: 'refresh_token',
-        },
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
+  private refreshAccessToken(): Promise<void> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = tracing.withSpan('zoho token refresh', { 'zoho.connection': this.zoho.name }, () => this.performTokenRefresh()).finally(() => {
+        this.refreshInFlight = null;
       });
+    }
+    return this.refreshInFlight;
+  }
 
-      const tokens: ZohoAuthTokens = response.data;
-      this.accessToken = tokens.access_token;
-      
-      // Set expiration time (subtract 5 minutes for buffer)
-      const expiresInMs = (tokens.expires_in - 300) * 1000;
-      this.tokenExpiresAt = new Date(Date.now() + expiresInMs);
-      
-      // Update .env file with new tokens
-      await this.updateEnvTokens(tokens);
-      
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  /**
+   * Request a new access token, retrying network errors, 5xx responses and
+   * rate limiting with jittered exponential backoff
+   */
+  private async performTokenRefresh(): Promise<void> {
+    const refreshToken = this.refreshToken;
+
+    let tokens: ZohoAuthTokens | null = null;
+    let lastError: unknown = null;
+
+    for (let attempt = 1; attempt <= TOKEN_REFRESH_ATTEMPTS && !tokens; attempt++) {
+      try {
+        const tokenUrl = `${this.accountsServer}/oauth/v2/token`;
+        
+        const response = await axios.post(tokenUrl, null, {
+          params: {
+            refresh_token: refreshToken,
+            client_id: this.zoho.clientId,
+            client_secret: this.zoho.clientSecret,
+            grant_type: 'refresh_token',
+          },
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+        });
+
+        if (!response.data.access_token) {
+          // Zoho reports invalid refresh tokens with HTTP 200 and an error field; retrying will not help
+          throw new ZohoApiClientError(response.data.error || 'No access token in response', 401);
+        }
+        tokens = response.data as ZohoAuthTokens;
+      } catch (error: unknown) {
+        lastError = error;
+
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        const retryable = !(error instanceof ZohoApiClientError) && (status === undefined || status === 429 || status >= 500 ||
+          /too many requests/i.test(String(axios.isAxiosError(error) ? error.response?.data?.error_description : '')));
+
+        if (!retryable || attempt === TOKEN_REFRESH_ATTEMPTS) {
+          break;
+        }
+
+        const delay = withJitter(1000 * 2 ** (attempt - 1));
+        logger.warn(`Token refresh attempt ${attempt} failed, retrying in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+
+    if (!tokens) {
+      const errorMessage = lastError instanceof Error ? lastError.message : 'Unknown error';
+      this.tokenStatus.last_refresh_error = errorMessage;
+      this.tokenStatus.last_refresh_error_at = new Date().toISOString();
+      this.tokenStatus.consecutive_failures++;
+      metrics.recordTokenRefresh(this.zoho.name, 'failure');
       throw new ZohoApiClientError(
         `Failed to refresh access token: ${errorMessage}`,
         401,
-        { originalError: error }
+        { originalError: lastError }
       );
     }
-  }
 
-  /**
-   * Update tokens.json file with new tokens
-   */
-  private async updateEnvTokens(tokens: ZohoAuthTokens): Promise<void> {
+    this.accessToken = tokens.access_token;
+    this.tokenExpiresAt = new Date(Date.now() + tokens.expires_in * 1000);
+    this.tokenStatus.last_refresh_at = new Date().toISOString();
+    this.tokenStatus.last_refresh_error = null;
+    this.tokenStatus.consecutive_failures = 0;
+    metrics.recordTokenRefresh(this.zoho.name, 'success');
+
+    // Persist the new access token alongside the refresh token; saving also reschedules the renewal
     try {
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      
-      const tokensPath = path.join(process.cwd(), 'tokens.json');
-      
-      // Create tokens object with expiration
-      const tokenData = {
-        refresh_token: config.zoho.refreshToken,
+      await this.tokenStore.save({
+        refresh_token: refreshToken ?? '',
         access_token: tokens.access_token,
-        expires_at: this.tokenExpiresAt?.toISOString() || '',
+        expires_at: this.tokenExpiresAt.toISOString(),
         created_at: new Date().toISOString(),
-        token_type: tokens.token_type || 'Bearer'
-      };
-
-      // Write tokens to JSON file
-      await fs.writeFile(tokensPath, JSON.stringify(tokenData, null, 2), 'utf-8');
-      
-      logger.info('Tokens updated in tokens.json file');
-      
+        token_type: tokens.token_type || 'Bearer',
+        api_domain: tokens.api_domain || this.apiDomain,
+        accounts_server: this.accountsServer,
+      });
     } catch (error) {
-      logger.warn('Could not update tokens.json file with new tokens:', error);
+      logger.warn(`Could not save refreshed tokens to ${this.tokenStore.kind} token store:`, error);
+      this.scheduleRenewal();
     }
   }
 
@@ -203,56 +586,152 @@ export class ZohoCRMClient {
   }
 
   /**
-   * Get Zoho configuration
+   * Make a GET request to a Zoho CRM settings API.
+   * Settings responses wrap their payload in an endpoint-specific key (modules, fields, ...)
+   * instead of `data`.
    */
-  private get zoho() {
-    return config.zoho;
+  private async getSettings<T>(endpoint: string, key: string, params?: Record<string, unknown>): Promise<T | undefined> {
+    const response: AxiosResponse<Record<string, T> | ''> = await this.axiosInstance.get(endpoint, { params });
+    return response.data ? response.data[key] : undefined;
   }
 
-  // ===== Core CRM Methods =====
+  /**
+   * Make a POST request to the Zoho CRM API
+   */
+  private async post<T>(endpoint: string, data?: unknown, params?: Record<string, unknown>): Promise<ZohoApiResponse<T>> {
+    const requestConfig: AxiosRequestConfig = {
+      params,
+    };
+
+    const response: AxiosResponse<ZohoApiResponse<T>> = await this.axiosInstance.post(endpoint, data, requestConfig);
+    return response.data;
+  }
 
   /**
-   * Search records in a CRM module
+   * Make a PUT request to the Zoho CRM API
    */
-  async searchRecords(params: SearchRecordsParams): Promise<CRMRecordList> {
-    const { module, criteria, page = 1, per_page = 25, sort_by, sort_order = 'asc', fields } = params;
-    
-    const apiParams: Record<string, unknown> = {
-      page,
-      per_page: Math.min(per_page, 200), // Max 200 per page
+  private async put<T>(endpoint: string, data?: unknown, params?: Record<string, unknown>): Promise<ZohoApiResponse<T>> {
+    const requestConfig: AxiosRequestConfig = {
+      params,
     };
 
-    // Add criteria if provided
-    if (criteria) {
-      apiParams.criteria = criteria;
-    }
+    const response: AxiosResponse<ZohoApiResponse<T>> = await this.axiosInstance.put(endpoint, data, requestConfig);
+    return response.data;
+  }
 
-    // Add sorting if provided
-    if (sort_by) {
-      apiParams.sort_by = sort_by;
-      apiParams.sort_order = sort_order;
-    }
+  /**
+   * Make a DELETE request to the Zoho CRM API
+   */
+  private async delete<T>(endpoint: string, params?: Record<string, unknown>): Promise<ZohoApiResponse<T>> {
+    const requestConfig: AxiosRequestConfig = {
+      params,
+    };
 
-    // Add field selection if provided
-    if (fields && fields.length > 0) {
-      apiParams.fields = fields.join(',');
+    const response: AxiosResponse<ZohoApiResponse<T>> = await this.axiosInstance.delete(endpoint, requestConfig);
+    return response.data;
+  }
+
+  /**
+   * Make a multipart POST request to the Zoho CRM API
+   */
+  private async postForm<T>(endpoint: string, form: FormData, params?: Record<string, unknown>): Promise<ZohoApiResponse<T>> {
+    const requestConfig: AxiosRequestConfig = {
+      params,
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      maxBodyLength: config.attachments.maxUploadBytes * 2,
+    };
+
+    const response: AxiosResponse<ZohoApiResponse<T>> = await this.axiosInstance.post(endpoint, form, requestConfig);
+    return response.data;
+  }
+
+  /**
+   * Make a GET request for binary content, refusing bodies larger than maxBytes
+   */
+  private async getBinary(endpoint: string, maxBytes: number): Promise<AxiosResponse<ArrayBuffer>> {
+    try {
+      return await this.axiosInstance.get<ArrayBuffer>(endpoint, {
+        responseType: 'arraybuffer',
+        maxContentLength: maxBytes,
+      });
+    } catch (error) {
+      if (error instanceof ZohoApiClientError && /maxContentLength/i.test(error.message)) {
+        throw new ZohoApiClientError(`Content exceeds the ${maxBytes} byte download limit`, 413, { endpoint });
+      }
+      throw error;
     }
+  }
 
-    const response = await this.get<CRMRecordList>(`/${module}`, apiParams);
-    
-    if (!response.data) {
-      throw new ZohoApiClientError('No data returned from search records API');
+  /**
+   * Run a record write action and return Zoho's per-record results.
+   * Zoho answers a rejected record with HTTP 400 and the same per-record body,
+   * so those are returned to the caller instead of being thrown away.
+   */
+  private async runRecordAction<R extends CRMActionResult = CRMActionResult>(
+    action: () => Promise<ZohoApiResponse<R[]>>
+  ): Promise<R[]> {
+    try {
+      const response = await action();
+
+      if (!response.data) {
+        throw new ZohoApiClientError('No data returned from record action API');
+      }
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof ZohoApiClientError) {
+        const body = error.details?.response as { data?: R[] } | undefined;
+        if (Array.isArray(body?.data)) {
+          return body.data;
+        }
+      }
+      throw error;
     }
+  }
 
-    return response.data;
+  /**
+   * Get Zoho configuration of this client's connection
+   */
+  private get zoho(): ZohoConnectionConfig {
+    return this.connection;
   }
 
   /**
-   * Get a specific record by ID
+   * Name of the connection this client talks to
    */
-  async getRecord(params: GetRecordParams): Promise<CRMRecord> {
-    const { module, record_id, fields } = params;
-    
+  get connectionName(): string {
+    return this.connection.name;
+  }
+
+  // ===== Core CRM Methods =====
+
+  /**
+   * Search records in a CRM module.
+   * Uses the /search endpoint when criteria, email, phone or word is given,
+   * and lists the module otherwise.
+   * With `auto_paginate`, follows `more_records` across pages up to `max_records`,
+   * calling `onPage` after each page is fetched.
+   */
+  async searchRecords(
+    params: SearchRecordsParams,
+    onPage?: (page: CRMRecordList) => void | Promise<void>
+  ): Promise<CRMRecordList> {
+    const { criteria, email, phone, word, sort_order = 'asc' } = params;
+    const module = await this.resolveModule(params.module);
+    const fields = params.fields && await this.resolveFields(module, params.fields);
+    const [sort_by] = params.sort_by ? await this.resolveFields(module, [params.sort_by]) : [];
+
+    const modes = [criteria, email, phone, word].filter((value) => value !== undefined && value !== '');
+    if (modes.length > 1) {
+      throw new ZohoMcpError(
+        'Only one of criteria, email, phone or word can be used per search',
+        'INVALID_SEARCH',
+        400
+      );
+    }
+
     const apiParams: Record<string, unknown> = {};
 
     // Add field selection if provided
@@ -260,50 +739,801 @@ export class ZohoCRMClient {
       apiParams.fields = fields.join(',');
     }
 
-    const response = await this.get<CRMRecord>(`/${module}/${record_id}`, apiParams);
-    
-    if (!response.data) {
-      throw new ZohoApiClientError('No data returned from get record API');
+    let endpoint = `/${module}`;
+
+    if (modes.length === 1) {
+      endpoint = `/${module}/search`;
+
+      if (criteria && typeof criteria !== 'string') {
+        const moduleFields = await this.getModuleFields({ module });
+        const resolvedCriteria = resolveCriteriaFields(module, criteria, moduleFields);
+        validateCriteria(resolvedCriteria, moduleFields);
+        apiParams.criteria = buildCriteria(resolvedCriteria);
+      } else if (criteria) {
+        apiParams.criteria = criteria;
+      } else if (email) {
+        apiParams.email = email;
+      } else if (phone) {
+        apiParams.phone = phone;
+      } else if (word) {
+        apiParams.word = word;
+      }
+    } else if (sort_by) {
+      // Sorting is only supported when listing records
+      apiParams.sort_by = sort_by;
+      apiParams.sort_order = sort_order;
     }
 
-    return response.data;
+    if (!params.auto_paginate) {
+      const result = await this.fetchRecordPage(endpoint, apiParams, params);
+      await onPage?.(result);
+      return result;
+    }
+
+    return this.fetchAllRecordPages(endpoint, apiParams, params, endpoint.endsWith('/search'), onPage);
   }
 
   /**
-   * List all available CRM modules
+   * Fetch one page of records, by page number or by page token
    */
-  async listModules(params: ListModulesParams = {}): Promise<CRMModuleInfo[]> {
-    const { type = 'all' } = params;
-    
-    const apiParams: Record<string, unknown> = {};
-    if (type !== 'all') {
-      apiParams.type = type;
+  private async fetchRecordPage(
+    endpoint: string,
+    apiParams: Record<string, unknown>,
+    params: Pick<SearchRecordsParams, 'page' | 'per_page' | 'page_token'>
+  ): Promise<CRMRecordList> {
+    const { page = 1, per_page = 25, page_token } = params;
+
+    const pageParams: Record<string, unknown> = {
+      ...apiParams,
+      per_page: Math.min(per_page, 200), // Max 200 per page
+    };
+    // page and page_token are mutually exclusive
+    if (page_token) {
+      pageParams.page_token = page_token;
+    } else {
+      pageParams.page = page;
     }
 
-    const response = await this.get<CRMModuleInfo[]>('/settings/modules', apiParams);
-    
-    if (!response.data) {
-      throw new ZohoApiClientError('No data returned from list modules API');
+    const response = await this.get<CRMRecord[]>(endpoint, pageParams);
+
+    // The search API answers 204 No Content when nothing matches
+    const records = response?.data ?? [];
+
+    const result: CRMRecordList = {
+      records,
+      info: {
+        count: response?.info?.count ?? records.length,
+        page: response?.info?.page ?? page,
+        per_page: response?.info?.per_page ?? per_page,
+        more_records: response?.info?.more_records ?? false,
+      },
+    };
+    if (response?.info?.next_page_token) {
+      result.info.next_page_token = response.info.next_page_token;
     }
 
-    return response.data;
+    return result;
   }
 
   /**
-   * Get fields for a specific module
+   * Fetch consecutive pages until Zoho reports no more records or `max_records` is reached.
+   * Zoho only serves the first 2,000 records by page number; listing continues past that
+   * with `page_token`, while the search API stops there.
+   * Pages hold 200 records unless the caller set `per_page`.
    */
-  async getModuleFields(params: GetModuleFieldsParams): Promise<CRMFieldInfo[]> {
-    const { module } = params;
-    
-    const response = await this.get<CRMFieldInfo[]>(`/settings/fields`, {
-      module,
-    });
-    
-    if (!response.data) {
-      throw new ZohoApiClientError('No data returned from get module fields API');
-    }
+  private async fetchAllRecordPages(
+    endpoint: string,
+    apiParams: Record<string, unknown>,
+    params: SearchRecordsParams,
+    isSearch: boolean,
+    onPage?: (page: CRMRecordList) => void | Promise<void>
+  ): Promise<CRMRecordList> {
+    const maxRecords = params.max_records ?? 1000;
+    const perPage = Math.min(params.per_page ?? 200, 200);
+    const records: CRMRecord[] = [];
 
-    return response.data;
+    let page = params.page ?? 1;
+    let pageToken = params.page_token;
+    let pagesFetched = 0;
+    let lastPage: CRMRecordList | null = null;
+    let truncatedReason: CRMRecordList['info']['truncated_reason'];
+
+    while (records.length < maxRecords) {
+      const pageParams: Pick<SearchRecordsParams, 'page' | 'per_page' | 'page_token'> = { page, per_page: perPage };
+      if (pageToken) {
+        pageParams.page_token = pageToken;
+      }
+
+      lastPage = await this.fetchRecordPage(endpoint, apiParams, pageParams);
+      pagesFetched++;
+      records.push(...lastPage.records);
+      await onPage?.(lastPage);
+
+      if (!lastPage.info.more_records) {
+        break;
+      }
+
+      // Zoho ignores the page number once a page token is sent, so follow the tokens
+      if (pageToken) {
+        if (!lastPage.info.next_page_token) {
+          break;
+        }
+        pageToken = lastPage.info.next_page_token;
+        continue;
+      }
+
+      page++;
+      if (page * perPage > PAGE_NUMBER_RECORD_LIMIT) {
+        if (isSearch) {
+          truncatedReason = 'search_limit';
+          break;
+        }
+        if (!lastPage.info.next_page_token) {
+          truncatedReason = 'page_limit';
+          break;
+        }
+        pageToken = lastPage.info.next_page_token;
+      }
+    }
+
+    const moreRecords = (lastPage?.info.more_records ?? false) || records.length > maxRecords;
+    if (!truncatedReason && moreRecords) {
+      truncatedReason = 'max_records';
+    }
+
+    const result: CRMRecordList = {
+      records: records.slice(0, maxRecords),
+      info: {
+        count: Math.min(records.length, maxRecords),
+        page: params.page ?? 1,
+        per_page: perPage,
+        more_records: moreRecords,
+        pages_fetched: pagesFetched,
+        truncated: truncatedReason !== undefined,
+      },
+    };
+    if (truncatedReason) {
+      result.info.truncated_reason = truncatedReason;
+    }
+    if (lastPage?.info.next_page_token) {
+      result.info.next_page_token = lastPage.info.next_page_token;
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a specific record by ID
+   */
+  async getRecord(params: GetRecordParams): Promise<CRMRecord> {
+    const { record_id } = params;
+    const module = await this.resolveModule(params.module);
+    const fields = params.fields && await this.resolveFields(module, params.fields);
+    
+    const apiParams: Record<string, unknown> = {};
+
+    // Add field selection if provided
+    if (fields && fields.length > 0) {
+      apiParams.fields = fields.join(',');
+    }
+
+    const response = await this.get<CRMRecord[]>(`/${module}/${record_id}`, apiParams);
+    const record = response.data?.[0];
+    
+    if (!record) {
+      throw new NotFoundError(`Record ${record_id} not found in ${module}`, { module, record_id });
+    }
+
+    return record;
+  }
+
+  /**
+   * Create one or more records in a CRM module (max 100 per call)
+   */
+  async createRecords(params: CreateRecordParams): Promise<CRMActionResult[]> {
+    const { data, trigger } = params;
+
+    if (data.length === 0 || data.length > 100) {
+      throw new ZohoApiClientError('Between 1 and 100 records can be created per call', 400);
+    }
+
+    const module = await this.resolveModule(params.module);
+
+    const body: Record<string, unknown> = { data: await this.resolveDataKeys(module, data) };
+    if (trigger) {
+      body.trigger = trigger;
+    }
+
+    return this.runRecordAction(() => this.post<CRMActionResult[]>(`/${module}`, body));
+  }
+
+  /**
+   * Update a specific record by ID
+   */
+  async updateRecord(params: UpdateRecordParams): Promise<CRMActionResult[]> {
+    const { record_id, data, trigger } = params;
+    const module = await this.resolveModule(params.module);
+
+    const body: Record<string, unknown> = { data: await this.resolveDataKeys(module, [data]) };
+    if (trigger) {
+      body.trigger = trigger;
+    }
+
+    return this.runRecordAction(() => this.put<CRMActionResult[]>(`/${module}/${record_id}`, body));
+  }
+
+  /**
+   * Insert or update records, matching existing ones on the duplicate check fields.
+   * Results are reported per input record, in input order.
+   */
+  async upsertRecords(params: UpsertRecordsParams): Promise<UpsertRecordResult[]> {
+    const { data, trigger } = params;
+
+    if (data.length === 0 || data.length > 100) {
+      throw new ZohoApiClientError('Between 1 and 100 records can be upserted per call', 400);
+    }
+
+    const module = await this.resolveModule(params.module);
+    const duplicate_check_fields = params.duplicate_check_fields && await this.resolveFields(module, params.duplicate_check_fields, false);
+
+    const body: Record<string, unknown> = { data: await this.resolveDataKeys(module, data) };
+    if (duplicate_check_fields && duplicate_check_fields.length > 0) {
+      body.duplicate_check_fields = duplicate_check_fields;
+    }
+    if (trigger) {
+      body.trigger = trigger;
+    }
+
+    const results = await this.runRecordAction(() => this.post<CRMUpsertActionResult[]>(`/${module}/upsert`, body));
+
+    return results.map((result, index) => {
+      let outcome: UpsertRecordResult['outcome'] = 'rejected';
+      if (result.status === 'success') {
+        outcome = result.action === 'update' ? 'updated' : 'inserted';
+      }
+
+      const upsertResult: UpsertRecordResult = {
+        index,
+        outcome,
+        code: result.code,
+        message: result.message,
+        details: result.details,
+      };
+      if (outcome !== 'rejected' && result.details.id) {
+        upsertResult.id = result.details.id;
+      }
+      if (result.duplicate_field !== undefined) {
+        upsertResult.duplicate_field = result.duplicate_field;
+      }
+
+      return upsertResult;
+    });
+  }
+
+  /**
+   * Convert a lead into an Account, a Contact and optionally a Deal.
+   * Passing account_id or contact_id attaches the lead to those records instead of creating new ones.
+   */
+  async convertLead(params: ConvertLeadParams): Promise<ConvertLeadResult> {
+    const { lead_id, account_id, contact_id, overwrite, notify_lead_owner, notify_new_entity_owner, assign_to, deal } = params;
+
+    const conversion: Record<string, unknown> = {};
+    if (overwrite !== undefined) {
+      conversion.overwrite = overwrite;
+    }
+    if (notify_lead_owner !== undefined) {
+      conversion.notify_lead_owner = notify_lead_owner;
+    }
+    if (notify_new_entity_owner !== undefined) {
+      conversion.notify_new_entity_owner = notify_new_entity_owner;
+    }
+    if (account_id) {
+      conversion.Accounts = { id: account_id };
+    }
+    if (contact_id) {
+      conversion.Contacts = { id: contact_id };
+    }
+    if (assign_to) {
+      conversion.assign_to = { id: assign_to };
+    }
+    if (deal) {
+      conversion.Deals = deal;
+    }
+
+    const [result] = await this.runRecordAction(() =>
+      this.post<CRMActionResult[]>(`/Leads/${lead_id}/actions/convert`, { data: [conversion] })
+    );
+
+    if (!result || result.status !== 'success') {
+      throw new ZohoApiClientError(
+        `Lead conversion failed: ${result?.message ?? 'No result returned'}`,
+        400,
+        { result }
+      );
+    }
+
+    // The converted record IDs are returned either as plain IDs or as { id, name } objects
+    const idOf = (value: unknown): string | null => {
+      if (typeof value === 'string') {
+        return value;
+      }
+      if (value && typeof value === 'object' && 'id' in value) {
+        return String((value as { id: unknown }).id);
+      }
+      return null;
+    };
+
+    return {
+      lead_id,
+      account_id: idOf(result.details.Accounts),
+      contact_id: idOf(result.details.Contacts),
+      deal_id: idOf(result.details.Deals),
+    };
+  }
+
+  /**
+   * Delete a specific record by ID
+   */
+  async deleteRecord(params: DeleteRecordParams): Promise<CRMActionResult[]> {
+    const { record_id, wf_trigger = true } = params;
+    const module = await this.resolveModule(params.module);
+
+    return this.runRecordAction(() => this.delete<CRMActionResult[]>(`/${module}/${record_id}`, {
+      wf_trigger,
+    }));
+  }
+
+  /**
+   * Execute a COQL SELECT statement.
+   * Module and field names are checked against metadata first unless `validate` is false.
+   */
+  async executeCoql(params: CoqlQueryParams): Promise<CoqlQueryResult> {
+    const { query, limit = 200, offset = 0, validate = true } = params;
+
+    const parsed = parseCoqlQuery(query);
+
+    if (validate) {
+      await this.validateCoqlIdentifiers(parsed.module, parsed.fields);
+    }
+
+    const selectQuery = applyCoqlPaging(query, parsed, limit, offset);
+    const response = await this.post<Array<Record<string, unknown>>>('/coql', { select_query: selectQuery });
+
+    // COQL answers 204 No Content when nothing matches
+    const rows = response?.data ?? [];
+    const moreRecords = response?.info?.more_records ?? false;
+
+    const info: CoqlQueryResult['info'] = {
+      count: response?.info?.count ?? rows.length,
+      more_records: moreRecords,
+    };
+    if (!parsed.hasLimit) {
+      info.limit = limit;
+      info.offset = offset;
+      if (moreRecords) {
+        info.next_offset = offset + rows.length;
+      }
+    }
+
+    return { rows, info };
+  }
+
+  /**
+   * Check a COQL query's module and field API names against metadata
+   */
+  private async validateCoqlIdentifiers(module: string, fields: string[]): Promise<void> {
+    const modules = await this.listModules();
+    const moduleNames = modules.map((info) => info.api_name);
+    if (!moduleNames.includes(module)) {
+      throw unknownCoqlModuleError(module, moduleNames);
+    }
+
+    const moduleFields = await this.getModuleFields({ module: module as CRMModule });
+
+    // Load the target module of every lookup traversed with dot notation
+    const lookupFields = new Map<string, CRMFieldInfo[]>();
+    for (const reference of fields) {
+      const [head, subField] = reference.split('.');
+      const headField = moduleFields.find((field) => field.api_name === head);
+      const lookupModule = subField && headField ? getLookupModule(headField) : undefined;
+      if (lookupModule && !lookupFields.has(lookupModule)) {
+        lookupFields.set(lookupModule, await this.getModuleFields({ module: lookupModule as CRMModule }));
+      }
+    }
+
+    const errors = findUnknownCoqlFields(fields, moduleFields, lookupFields);
+    if (errors.length > 0) {
+      throw new ZohoMcpError(
+        `Invalid COQL query: ${errors.join('; ')}`,
+        'INVALID_COQL',
+        400,
+        { errors }
+      );
+    }
+  }
+
+  // ===== Note Methods =====
+
+  /**
+   * List the notes attached to a record
+   */
+  async listNotes(params: ListNotesParams): Promise<CRMRecordList> {
+    const { record_id } = params;
+    const module = await this.resolveModule(params.module);
+
+    return this.fetchRecordPage(`/${module}/${record_id}/Notes`, { fields: NOTE_FIELDS.join(',') }, params);
+  }
+
+  /**
+   * Get a single note with its owner and timestamps
+   */
+  private async getNote(noteId: string): Promise<Note> {
+    const response = await this.get<Note[]>(`/Notes/${noteId}`, { fields: NOTE_FIELDS.join(',') });
+    const note = response?.data?.[0];
+
+    if (!note) {
+      throw new NotFoundError(`Note ${noteId} not found`, { note_id: noteId });
+    }
+
+    return note;
+  }
+
+  /**
+   * Check a note action result and return the saved note
+   */
+  private async resolveNoteResult(result: CRMActionResult | undefined, action: string): Promise<Note> {
+    if (!result || result.status !== 'success' || !result.details.id) {
+      throw new ZohoApiClientError(
+        `Failed to ${action} note: ${result?.message ?? 'No result returned'}`,
+        400,
+        { result }
+      );
+    }
+
+    return this.getNote(result.details.id);
+  }
+
+  /**
+   * Add a note to a record
+   */
+  async addNote(params: AddNoteParams): Promise<Note> {
+    const { record_id, title, content } = params;
+    const module = await this.resolveModule(params.module);
+
+    const note: Record<string, unknown> = { Note_Content: content };
+    if (title) {
+      note.Note_Title = title;
+    }
+
+    const [result] = await this.runRecordAction(() =>
+      this.post<CRMActionResult[]>(`/${module}/${record_id}/Notes`, { data: [note] })
+    );
+
+    return this.resolveNoteResult(result, 'add');
+  }
+
+  /**
+   * Update the title and/or content of a record's note
+   */
+  async updateNote(params: UpdateNoteParams): Promise<Note> {
+    const { record_id, note_id, title, content } = params;
+    const module = await this.resolveModule(params.module);
+
+    const note: Record<string, unknown> = {};
+    if (title !== undefined) {
+      note.Note_Title = title;
+    }
+    if (content !== undefined) {
+      note.Note_Content = content;
+    }
+    if (Object.keys(note).length === 0) {
+      throw new ZohoApiClientError('Provide a title or content to update the note', 400);
+    }
+
+    const [result] = await this.runRecordAction(() =>
+      this.put<CRMActionResult[]>(`/${module}/${record_id}/Notes/${note_id}`, { data: [note] })
+    );
+
+    return this.resolveNoteResult(result, 'update');
+  }
+
+  /**
+   * Delete a note from a record
+   */
+  async deleteNote(params: DeleteNoteParams): Promise<CRMActionResult[]> {
+    const { record_id, note_id } = params;
+    const module = await this.resolveModule(params.module);
+
+    return this.runRecordAction(() => this.delete<CRMActionResult[]>(`/${module}/${record_id}/Notes/${note_id}`));
+  }
+
+  // ===== Attachment Methods =====
+
+  /**
+   * List the attachments of a record
+   */
+  async listAttachments(params: ListAttachmentsParams): Promise<CRMRecordList> {
+    const { record_id } = params;
+    const module = await this.resolveModule(params.module);
+
+    return this.fetchRecordPage(`/${module}/${record_id}/Attachments`, { fields: ATTACHMENT_FIELDS.join(',') }, params);
+  }
+
+  /**
+   * Attach a file or a URL to a record.
+   * The file comes from `content_base64` or from `file_path`, which must lie inside ATTACHMENT_UPLOAD_DIR.
+   */
+  async uploadAttachment(params: UploadAttachmentParams): Promise<CRMActionResult[]> {
+    const { record_id, file_path, content_base64, file_name, url, title } = params;
+    const module = await this.resolveModule(params.module);
+
+    const sources = [file_path, content_base64, url].filter((value) => value !== undefined && value !== '');
+    if (sources.length !== 1) {
+      throw new ZohoApiClientError('Provide exactly one of file_path, content_base64 or url', 400);
+    }
+
+    const form = new FormData();
+
+    if (url) {
+      form.append('attachmentUrl', url);
+      if (title) {
+        form.append('title', title);
+      }
+    } else {
+      let content: Buffer;
+      let name = file_name;
+
+      if (file_path) {
+        const fs = await import('fs/promises');
+        const path = await import('path');
+
+        const uploadDir = config.attachments.uploadDir;
+        if (!uploadDir) {
+          throw new ZohoApiClientError('Uploading from a local path requires ATTACHMENT_UPLOAD_DIR to be set', 400);
+        }
+
+        // Resolve symlinks first, so a link inside the upload directory cannot point outside it
+        const root = await fs.realpath(path.resolve(uploadDir));
+        let resolved: string;
+        try {
+          resolved = await fs.realpath(path.resolve(root, file_path));
+        } catch {
+          throw new ZohoApiClientError(`File not found: ${file_path}`, 400, { file_path });
+        }
+        if (!resolved.startsWith(`${root}${path.sep}`)) {
+          throw new ZohoApiClientError(`File path must be inside ${root}`, 400, { file_path });
+        }
+
+        content = await fs.readFile(resolved);
+        name = name ?? path.basename(resolved);
+      } else {
+        if (!name) {
+          throw new ZohoApiClientError('file_name is required when uploading base64 content', 400);
+        }
+        content = Buffer.from(content_base64 as string, 'base64');
+      }
+
+      if (content.length > config.attachments.maxUploadBytes) {
+        throw new ZohoApiClientError(
+          `File is ${content.length} bytes, above the ${config.attachments.maxUploadBytes} byte upload limit`,
+          413
+        );
+      }
+
+      form.append('file', new Blob([new Uint8Array(content)]), name as string);
+    }
+
+    return this.runRecordAction(() => this.postForm<CRMActionResult[]>(`/${module}/${record_id}/Attachments`, form));
+  }
+
+  /**
+   * Download the content of a record's attachment, up to ATTACHMENT_MAX_DOWNLOAD_BYTES
+   */
+  async downloadAttachment(params: DownloadAttachmentParams): Promise<AttachmentDownload> {
+    const { record_id, attachment_id } = params;
+    const module = await this.resolveModule(params.module);
+
+    const response = await this.getBinary(
+      `/${module}/${record_id}/Attachments/${attachment_id}`,
+      config.attachments.maxDownloadBytes
+    );
+
+    const content = Buffer.from(response.data);
+    const disposition = String(response.headers['content-disposition'] ?? '');
+    const encodedName = disposition.match(/filename\*=UTF-8''([^;]+)/i)?.[1];
+    const plainName = disposition.match(/filename="?([^";]+)"?/i)?.[1];
+
+    return {
+      attachment_id,
+      file_name: encodedName ? decodeURIComponent(encodedName) : (plainName ?? attachment_id),
+      content_type: String(response.headers['content-type'] ?? 'application/octet-stream'),
+      size: content.length,
+      content,
+    };
+  }
+
+  /**
+   * List all available CRM modules
+   */
+  async listModules(params: ListModulesParams = {}): Promise<CRMModuleInfo[]> {
+    const { type = 'all', fresh = false } = params;
+    
+    const apiParams: Record<string, unknown> = {};
+    if (type !== 'all') {
+      apiParams.type = type;
+    }
+
+    return this.metadataCache.get(`modules:${type}`, async () => {
+      const modules = await this.getSettings<CRMModuleInfo[]>('/settings/modules', 'modules', apiParams);
+      
+      if (!modules) {
+        throw new ZohoApiClientError('No data returned from list modules API');
+      }
+
+      return modules;
+    }, fresh);
+  }
+
+  /**
+   * Get fields for a specific module
+   */
+  async getModuleFields(params: GetModuleFieldsParams): Promise<CRMFieldInfo[]> {
+    const { fresh = false } = params;
+    const module = await this.resolveModule(params.module);
+    
+    return this.metadataCache.get(`fields:${module}`, async () => {
+      const fields = await this.getSettings<CRMFieldInfo[]>(`/settings/fields`, 'fields', {
+        module,
+      });
+      
+      if (!fields) {
+        throw new ZohoApiClientError('No data returned from get module fields API');
+      }
+
+      return fields;
+    }, fresh);
+  }
+
+  /**
+   * Get the layouts of a specific module, with their sections and fields
+   */
+  async getModuleLayouts(params: GetModuleLayoutsParams): Promise<CRMLayoutInfo[]> {
+    const { fresh = false } = params;
+    const module = await this.resolveModule(params.module);
+
+    return this.metadataCache.get(`layouts:${module}`, async () => {
+      const layouts = await this.getSettings<CRMLayoutInfo[]>('/settings/layouts', 'layouts', {
+        module,
+      });
+
+      if (!layouts) {
+        throw new ZohoApiClientError('No data returned from get module layouts API');
+      }
+
+      return layouts;
+    }, fresh);
+  }
+
+  /**
+   * Get the related lists (Contacts, Deals, Notes, Attachments, ...) available on a module's records
+   */
+  async getRelatedLists(params: GetRelatedListsParams): Promise<CRMRelatedListInfo[]> {
+    const { fresh = false } = params;
+    const module = await this.resolveModule(params.module);
+
+    return this.metadataCache.get(`related_lists:${module}`, async () => {
+      const relatedLists = await this.getSettings<CRMRelatedListInfo[]>('/settings/related_lists', 'related_lists', {
+        module,
+      });
+
+      if (!relatedLists) {
+        throw new ZohoApiClientError('No data returned from get related lists API');
+      }
+
+      return relatedLists;
+    }, fresh);
+  }
+
+  /**
+   * Load the module list and the fields, layouts and related lists of some modules
+   * into the metadata cache. Failures are logged, not thrown.
+   */
+  async warmMetadataCache(modules: string[]): Promise<void> {
+    try {
+      await this.listModules();
+      await Promise.all(modules.flatMap((module) => [
+        this.getModuleFields({ module: module as CRMModule }),
+        this.getModuleLayouts({ module: module as CRMModule }),
+        this.getRelatedLists({ module: module as CRMModule }),
+      ]));
+      logger.info(`Warmed metadata cache for connection "${this.zoho.name}" (${modules.join(', ')})`);
+    } catch (error) {
+      logger.warn(`Could not warm metadata cache for connection "${this.zoho.name}":`, error);
+    }
+  }
+
+  /**
+   * List the records of a related list of a specific record
+   */
+  async listRelatedRecords(params: ListRelatedRecordsParams): Promise<CRMRecordList> {
+    const { record_id, related_list, fields } = params;
+    const module = await this.resolveModule(params.module);
+
+    const apiParams: Record<string, unknown> = {};
+    if (fields && fields.length > 0) {
+      apiParams.fields = fields.join(',');
+    }
+    if (params.sort_by) {
+      apiParams.sort_by = params.sort_by;
+      apiParams.sort_order = params.sort_order ?? 'asc';
+    }
+
+    return this.fetchRecordPage(`/${module}/${record_id}/${related_list}`, apiParams, params);
+  }
+
+  // ===== Name Resolution Methods =====
+
+  /**
+   * Resolve a module API name from an API name, label or near-miss spelling.
+   * When the module list cannot be loaded, the name is used as given.
+   */
+  private async resolveModule(module: CRMModule): Promise<CRMModule> {
+    let modules: CRMModuleInfo[];
+    try {
+      modules = await this.listModules();
+    } catch (error) {
+      logger.debug(`Could not load modules to resolve "${module}", using it as given:`, error);
+      return module;
+    }
+    return resolveModuleName(module, modules);
+  }
+
+  /**
+   * Load a module's fields for resolving field names, or null when they cannot be loaded
+   */
+  private async fieldsForResolution(module: CRMModule): Promise<CRMFieldInfo[] | null> {
+    try {
+      return await this.getModuleFields({ module });
+    } catch (error) {
+      logger.debug(`Could not load the fields of ${module} to resolve field names, using them as given:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve field API names of a module from API names, labels or near-miss spellings
+   * (only API names and labels when `guess` is false)
+   */
+  private async resolveFields(module: CRMModule, fields: string[], guess = true): Promise<string[]> {
+    if (fields.length === 0) {
+      return fields;
+    }
+    const moduleFields = await this.fieldsForResolution(module);
+    return moduleFields ? resolveFieldNames(module, fields, moduleFields, guess) : fields;
+  }
+
+  /**
+   * Rename the keys of records to write from API names or labels to field API names.
+   * Keys that are not an API name or label are reported rather than guessed, so a value never lands in the wrong field.
+   */
+  private async resolveDataKeys<T extends Record<string, unknown>>(module: CRMModule, records: T[]): Promise<T[]> {
+    const keys = [...new Set(records.flatMap((record) => Object.keys(record)))];
+    const apiNames = new Map((await this.resolveFields(module, keys, false)).map((apiName, index) => [keys[index] as string, apiName]));
+
+    return records.map((record) => {
+      const renamed: Record<string, unknown> = {};
+      const givenAs = new Map<string, string>();
+      for (const [key, value] of Object.entries(record)) {
+        const apiName = apiNames.get(key) ?? key;
+        const previousKey = givenAs.get(apiName);
+        if (previousKey !== undefined) {
+          throw new InvalidFieldError(`Field ${apiName} of ${module} is given twice, as "${previousKey}" and "${key}"`, { module, field: apiName });
+        }
+        givenAs.set(apiName, key);
+        renamed[apiName] = value;
+      }
+      return renamed as T;
+    });
   }
 
   // ===== Health Check Method =====
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { findRegionByAccountsUrl, findRegionByApiDomain, getDataCenter, ZOHO_REGIONS } from '../../src/config/data-centers.js';
+import { ConfigurationError } from '../../src/types/index.js';
+
+describe('getDataCenter', () => {
+  it('returns the accounts server and API domain of a region', () => {
+    expect(getDataCenter('eu')).toMatchObject({ accountsUrl: 'https://accounts.zoho.eu', apiDomain: 'https://www.zohoapis.eu' });
+    expect(getDataCenter('ca').accountsUrl).toBe('https://accounts.zohocloud.ca');
+  });
+
+  it('rejects unknown regions, listing the supported ones', () => {
+    expect(() => getDataCenter('us')).toThrow(ConfigurationError);
+    expect(() => getDataCenter('us')).toThrow(ZOHO_REGIONS.join(', '));
+  });
+});
+
+describe('findRegionByAccountsUrl', () => {
+  it('matches accounts servers regardless of case and trailing slashes', () => {
+    expect(findRegionByAccountsUrl('https://accounts.zoho.com.au/')).toBe('com.au');
+    expect(findRegionByAccountsUrl(' HTTPS://ACCOUNTS.ZOHO.IN ')).toBe('in');
+  });
+
+  it('returns undefined for other URLs', () => {
+    expect(findRegionByAccountsUrl('https://accounts.example.com')).toBeUndefined();
+  });
+});
+
+describe('findRegionByApiDomain', () => {
+  it('maps every API domain to its region', () => {
+    for (const region of ZOHO_REGIONS) {
+      expect(findRegionByApiDomain(getDataCenter(region).apiDomain)).toBe(region);
+    }
+  });
+
+  it('tells apart regions that share a suffix', () => {
+    expect(findRegionByApiDomain('https://www.zohoapis.com')).toBe('com');
+    expect(findRegionByApiDomain('https://www.zohoapis.com.au')).toBe('com.au');
+    expect(findRegionByApiDomain('https://www.zohoapis.com.cn')).toBe('com.cn');
+  });
+
+  it('accepts sandbox and developer domains of a data center', () => {
+    expect(findRegionByApiDomain('https://sandbox.zohoapis.eu/crm/v2')).toBe('eu');
+    expect(findRegionByApiDomain('https://developer.zohoapis.com')).toBe('com');
+  });
+
+  it('rejects non-HTTPS and look-alike domains', () => {
+    expect(findRegionByApiDomain('http://www.zohoapis.com')).toBeUndefined();
+    expect(findRegionByApiDomain('https://www.zohoapis.com.evil.example')).toBeUndefined();
+    expect(findRegionByApiDomain('https://evilzohoapis.com')).toBeUndefined();
+    expect(findRegionByApiDomain('not a url')).toBeUndefined();
+  });
+});
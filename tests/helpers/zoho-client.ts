@@ -0,0 +1,118 @@
+/**
+ * Test helpers for ZohoCRMClient
+ * Builds a client whose HTTP requests are answered by a handler instead of Zoho,
+ * with its tokens in memory
+ */
+
+import axios, { AxiosError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import { ZohoCRMClient } from '../../src/utils/zoho-crm-client.js';
+import { MemoryTokenStore } from '../../src/utils/token-store.js';
+import { MetadataCache } from '../../src/utils/metadata-cache.js';
+import type { StoredTokens, ZohoConnectionConfig } from '../../src/types/index.js';
+
+export interface FakeResponse {
+  status?: number;
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type RequestHandler = (request: InternalAxiosRequestConfig) => FakeResponse | Promise<FakeResponse>;
+
+export interface TestClient {
+  client: ZohoCRMClient;
+  tokenStore: MemoryTokenStore;
+  /** Requests the client sent, in order */
+  requests: InternalAxiosRequestConfig[];
+}
+
+let clientCount = 0;
+
+/**
+ * Answer a request like an axios adapter: resolve 2xx responses, reject the others
+ */
+function respond(request: InternalAxiosRequestConfig, { status = 200, data = {}, headers = {} }: FakeResponse): AxiosResponse {
+  const response = { status, statusText: String(status), data, headers, config: request } as AxiosResponse;
+  if (status >= 400) {
+    throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_RESPONSE, request, null, response);
+  }
+  return response;
+}
+
+/**
+ * The access token a request was sent with
+ */
+export function tokenOf(request: InternalAxiosRequestConfig): string {
+  return String(request.headers.Authorization ?? '').replace(/^Zoho-oauthtoken\s+/, '');
+}
+
+/**
+ * Create a client on its own connection (so it has its own request scheduler),
+ * holding a valid access token unless `tokens` says otherwise
+ */
+export async function createTestClient(handler: RequestHandler, tokens: StoredTokens = {}): Promise<TestClient> {
+  const connection: ZohoConnectionConfig = {
+    name: `test_${++clientCount}`,
+    clientId: 'client-id',
+    clientSecret: 'client-secret',
+    region: 'com',
+    baseUrl: 'https://www.zohoapis.com',
+    accountsUrl: 'https://accounts.zoho.com',
+  };
+
+  const tokenStore = new MemoryTokenStore();
+  await tokenStore.save({
+    access_token: 'token-1',
+    refresh_token: 'refresh-token',
+    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    ...tokens,
+  });
+
+  const requests: InternalAxiosRequestConfig[] = [];
+  const defaultAdapter = axios.defaults.adapter;
+  // The client captures the default adapter when it is created
+  axios.defaults.adapter = async (request) => {
+    requests.push(request);
+    return respond(request, await handler(request));
+  };
+  try {
+    const client = new ZohoCRMClient(connection, tokenStore, new MetadataCache(connection.name, 60 * 1000));
+    return { client, tokenStore, requests };
+  } finally {
+    axios.defaults.adapter = defaultAdapter;
+  }
+}
+
+/**
+ * A `/settings/modules` response listing the given modules, labelled by their API names
+ */
+export function modulesResponse(...apiNames: string[]): FakeResponse {
+  return {
+    data: {
+      modules: apiNames.map((apiName) => ({
+        api_name: apiName,
+        module_name: apiName,
+        display_name: apiName,
+        plural_label: apiName,
+        singular_label: apiName.replace(/s$/, ''),
+      })),
+    },
+  };
+}
+
+/**
+ * A `/settings/fields` response listing fields by API name and label
+ */
+export function fieldsResponse(...fields: Array<[apiName: string, label: string]>): FakeResponse {
+  return {
+    data: {
+      fields: fields.map(([apiName, label]) => ({ api_name: apiName, display_label: label, field_label: label, data_type: 'text' })),
+    },
+  };
+}
+
+/**
+ * The JSON body a request was sent with
+ */
+export function bodyOf(request: InternalAxiosRequestConfig): Record<string, unknown> {
+  return typeof request.data === 'string' ? JSON.parse(request.data) : request.data;
+}
@@ -0,0 +1,61 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { API_KEY_PREFIX, ApiKeyStore } from '../../src/utils/api-key-store.js';
+
+describe('ApiKeyStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zoho-api-keys-'));
+    filePath = path.join(dir, 'api-keys.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('accepts a created key and saves only its hash', async () => {
+    const store = new ApiKeyStore(filePath);
+    const { key, info } = await store.create('laptop');
+
+    expect(key.startsWith(`${API_KEY_PREFIX}${info.id}_`)).toBe(true);
+    expect(await store.verify(key)).toMatchObject({ id: info.id, name: 'laptop', revoked_at: null });
+    const saved = await fs.readFile(filePath, 'utf-8');
+    expect(saved).not.toContain(key);
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('rejects unknown, altered and revoked keys', async () => {
+    const store = new ApiKeyStore(filePath);
+    const { key, info } = await store.create('laptop');
+
+    expect(await store.verify(`${API_KEY_PREFIX}000000000000_guess`)).toBeNull();
+    expect(await store.verify(`${key}x`)).toBeNull();
+    expect(await store.verify('not-a-key')).toBeNull();
+
+    await store.revoke(info.id);
+    expect(await store.verify(key)).toBeNull();
+    expect((await store.list())[0]).toMatchObject({ id: info.id, revoked_at: expect.any(String) });
+    expect((await store.list())[0]).not.toHaveProperty('key_hash');
+  });
+
+  it('sees keys created and revoked through another store on the same file without restarting', async () => {
+    const server = new ApiKeyStore(filePath);
+    const script = new ApiKeyStore(filePath);
+
+    const { key, info } = await script.create('ci');
+    expect(await server.verify(key)).not.toBeNull();
+
+    await script.revoke(info.id);
+    expect(await server.verify(key)).toBeNull();
+  });
+
+  it('refuses to revoke an unknown key', async () => {
+    const store = new ApiKeyStore(filePath);
+
+    await expect(store.revoke('000000000000')).rejects.toMatchObject({ code: 'UNKNOWN_API_KEY', statusCode: 404 });
+  });
+});
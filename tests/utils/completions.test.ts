@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CompleteRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { completeFieldName, completionArgument, trackCompletionContext } from '../../src/utils/completions.js';
+import { createTestClient, modulesResponse } from '../helpers/zoho-client.js';
+
+const fields = [
+  { api_name: 'Last_Name', display_label: 'Last Name' },
+  { api_name: 'Lead_Source', display_label: 'Lead Source' },
+  { api_name: 'Email', display_label: 'Email' },
+];
+
+describe('completionArgument', () => {
+  it('gives completers the other arguments of the completion request', async () => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { completions: {} } });
+    server.setRequestHandler(CompleteRequestSchema, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      const module = completionArgument('module');
+      return { completion: { values: module ? [module] : [] } };
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    trackCompletionContext(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const ref = { type: 'ref/resource' as const, uri: 'zcrm://modules/{module}/fields/{field}' };
+    const withModule = await client.complete({ ref, argument: { name: 'field', value: 'la' }, context: { arguments: { module: 'Leads' } } });
+    const withoutModule = await client.complete({ ref, argument: { name: 'field', value: 'la' } });
+
+    expect(withModule.completion.values).toEqual(['Leads']);
+    expect(withoutModule.completion.values).toEqual([]);
+    expect(completionArgument('module')).toBeUndefined();
+    await client.close();
+  });
+});
+
+describe('completeFieldName', () => {
+  it('completes the fields of the chosen module, loading them when needed', async () => {
+    const { client, requests } = await createTestClient((request) => {
+      if (request.url === '/settings/modules') {
+        return modulesResponse('Leads', 'Deals');
+      }
+      return { data: { fields: request.params.module === 'Leads' ? fields : [] } };
+    });
+
+    const result = await completeFieldName(client, 'Leads', 'l');
+
+    expect(result).toEqual({ values: ['Last_Name', 'Lead_Source', 'Email'], total: 3, hasMore: false });
+    expect(requests.find((request) => request.url === '/settings/fields')?.params).toMatchObject({ module: 'Leads' });
+    expect((await completeFieldName(client, 'Deals', 'l')).values).toEqual([]);
+  });
+
+  it('completes nothing before the module is chosen', async () => {
+    const { client, requests } = await createTestClient(() => ({ data: {} }));
+
+    expect(await completeFieldName(client, undefined, 'l')).toEqual({ values: [], total: 0, hasMore: false });
+    expect(requests).toHaveLength(0);
+  });
+});
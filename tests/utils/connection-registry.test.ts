@@ -0,0 +1,104 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let dir: string;
+
+/**
+ * Import the config and registry afresh, so they read the environment stubbed by the test
+ */
+async function load(connections?: unknown[]) {
+  if (connections) {
+    vi.stubEnv('ZOHO_CONNECTIONS', JSON.stringify(connections));
+  }
+  vi.resetModules();
+  const { config } = await import('../../src/config/index.js');
+  const { ConnectionRegistry } = await import('../../src/utils/connection-registry.js');
+  return { config, ConnectionRegistry };
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zoho-connections-'));
+  vi.stubEnv('ZOHO_CLIENT_ID', 'default-client');
+  vi.stubEnv('ZOHO_CLIENT_SECRET', 'default-secret');
+  vi.stubEnv('ZOHO_REGION', 'com');
+  vi.stubEnv('TOKEN_STORE', 'memory');
+  vi.stubEnv('ZOHO_CONNECTIONS_FILE', path.join(dir, 'connections.json'));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('config.connections', () => {
+  it('fills named connections from the default one, deriving endpoints from their region', async () => {
+    const { config } = await load([
+      { name: 'eu_org', region: 'eu', clientId: 'eu-client', clientSecret: 'eu-secret' },
+      { name: 'sandbox', baseUrl: 'https://sandbox.zohoapis.com', refreshToken: 'sandbox-refresh' },
+      { name: 'default', clientId: 'ignored' },
+    ]);
+
+    expect(config.connections).toEqual([
+      expect.objectContaining({ name: 'default', clientId: 'default-client', baseUrl: 'https://www.zohoapis.com' }),
+      {
+        name: 'eu_org',
+        clientId: 'eu-client',
+        clientSecret: 'eu-secret',
+        region: 'eu',
+        baseUrl: 'https://www.zohoapis.eu',
+        accountsUrl: 'https://accounts.zoho.eu',
+      },
+      {
+        name: 'sandbox',
+        clientId: 'default-client',
+        clientSecret: 'default-secret',
+        region: 'com',
+        baseUrl: 'https://sandbox.zohoapis.com',
+        accountsUrl: 'https://accounts.zoho.com',
+        refreshToken: 'sandbox-refresh',
+      },
+    ]);
+  });
+
+  it('rejects malformed connections', async () => {
+    await expect(load([{ name: 'has spaces' }])).rejects.toThrow('ZOHO_CONNECTIONS must be a JSON array of connections');
+  });
+});
+
+describe('ConnectionRegistry', () => {
+  it('gives each connection its own client, and names the available ones for unknown connections', async () => {
+    const { ConnectionRegistry } = await load([{ name: 'eu_org', region: 'eu' }]);
+    const registry = new ConnectionRegistry();
+
+    expect(registry.names()).toEqual(['default', 'eu_org']);
+    expect(registry.getClient('eu_org').apiBaseUrl).toBe('https://www.zohoapis.eu');
+    expect(registry.getClient()).not.toBe(registry.getClient('eu_org'));
+
+    expect(() => registry.getClient('us_org')).toThrow(expect.objectContaining({
+      code: 'UNKNOWN_CONNECTION',
+      statusCode: 404,
+      message: 'Unknown connection "us_org". Available connections: default, eu_org',
+    }));
+    registry.stopTokenRenewal();
+  });
+
+  it('saves added connections so a restarted registry loads them', async () => {
+    const { ConnectionRegistry } = await load();
+    const registry = new ConnectionRegistry();
+
+    await Promise.all([
+      registry.addConnection({ name: 'in_org', region: 'in' }),
+      registry.addConnection({ name: 'au_org', region: 'com.au' }),
+    ]);
+    await expect(registry.addConnection({ name: 'in_org' })).rejects.toMatchObject({ code: 'CONNECTION_EXISTS' });
+
+    const restarted = new ConnectionRegistry();
+    await restarted.loadSavedConnections();
+    expect(restarted.names()).toEqual(['default', 'in_org', 'au_org']);
+    expect(restarted.getConfig('in_org').accountsUrl).toBe('https://accounts.zoho.in');
+    registry.stopTokenRenewal();
+    restarted.stopTokenRenewal();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { applyCoqlPaging, findUnknownCoqlFields, parseCoqlQuery, unknownCoqlModuleError } from '../../src/utils/coql.js';
+import { ZohoMcpError, type CRMFieldInfo } from '../../src/types/index.js';
+
+function field(api_name: string, extra: Partial<CRMFieldInfo> = {}): CRMFieldInfo {
+  return { api_name, data_type: 'text', display_label: api_name, ...extra } as CRMFieldInfo;
+}
+
+describe('parseCoqlQuery', () => {
+  it('extracts the module and the referenced fields', () => {
+    const parsed = parseCoqlQuery("SELECT Last_Name, Email FROM Contacts WHERE Lead_Source = 'Web' ORDER BY Created_Time DESC");
+    expect(parsed).toEqual({
+      module: 'Contacts',
+      fields: ['Last_Name', 'Email', 'Lead_Source', 'Created_Time'],
+      hasLimit: false,
+    });
+  });
+
+  it('ignores keywords, functions, aliases and string literals', () => {
+    const parsed = parseCoqlQuery(
+      "select COUNT(id) as total, Stage from Deals where Stage not in ('Closed Won', 'Closed Lost') and Amount is not null group by Stage"
+    );
+    expect(parsed.fields).toEqual(['id', 'Stage', 'Amount']);
+  });
+
+  it('keeps lookup paths as one reference', () => {
+    expect(parseCoqlQuery('SELECT Account_Name.Industry FROM Contacts').fields).toEqual(['Account_Name.Industry']);
+  });
+
+  it('detects a LIMIT clause', () => {
+    expect(parseCoqlQuery('SELECT Last_Name FROM Leads LIMIT 10').hasLimit).toBe(true);
+  });
+
+  it('rejects statements that are not SELECT ... FROM', () => {
+    expect(() => parseCoqlQuery('DELETE FROM Leads')).toThrow(ZohoMcpError);
+  });
+});
+
+describe('applyCoqlPaging', () => {
+  it('appends LIMIT offset, limit without a trailing semicolon', () => {
+    const query = 'SELECT Last_Name FROM Leads WHERE Last_Name is not null; ';
+    expect(applyCoqlPaging(query, parseCoqlQuery(query), 200, 400))
+      .toBe('SELECT Last_Name FROM Leads WHERE Last_Name is not null LIMIT 400, 200');
+  });
+
+  it('leaves queries that page themselves unchanged', () => {
+    const query = 'SELECT Last_Name FROM Leads LIMIT 5 ';
+    expect(applyCoqlPaging(query, parseCoqlQuery(query), 200, 0)).toBe('SELECT Last_Name FROM Leads LIMIT 5');
+  });
+});
+
+describe('findUnknownCoqlFields', () => {
+  const contactFields = [
+    field('Last_Name'),
+    field('Email'),
+    field('Account_Name', { data_type: 'lookup', lookup: { module: { api_name: 'Accounts' } } } as Partial<CRMFieldInfo>),
+  ];
+  const lookupFields = new Map([['Accounts', [field('Industry'), field('Account_Name')]]]);
+
+  it('accepts known fields, id and lookup paths', () => {
+    expect(findUnknownCoqlFields(['Last_Name', 'id', 'Account_Name.Industry', 'Account_Name.id'], contactFields, lookupFields)).toEqual([]);
+  });
+
+  it('reports unknown fields with suggestions', () => {
+    expect(findUnknownCoqlFields(['Emial'], contactFields, lookupFields)).toEqual(['Unknown field "Emial". Did you mean: Email?']);
+  });
+
+  it('reports paths through fields that are not lookups', () => {
+    expect(findUnknownCoqlFields(['Email.Domain'], contactFields, lookupFields))
+      .toEqual(['Field "Email" is not a lookup field, so "Email.Domain" cannot be resolved']);
+  });
+
+  it('checks paths against the lookup module when its fields are known', () => {
+    expect(findUnknownCoqlFields(['Account_Name.Industy'], contactFields, lookupFields))
+      .toEqual(['Unknown field "Industy" in Accounts (via Account_Name). Did you mean: Industry?']);
+    expect(findUnknownCoqlFields(['Account_Name.Industy'], contactFields, new Map())).toEqual([]);
+  });
+});
+
+describe('unknownCoqlModuleError', () => {
+  it('suggests the closest module names', () => {
+    const error = unknownCoqlModuleError('Contcts', ['Accounts', 'Contacts', 'Deals']);
+    expect(error.code).toBe('INVALID_COQL');
+    expect(error.message).toBe('Invalid COQL query: unknown module "Contcts". Did you mean: Contacts?');
+  });
+});
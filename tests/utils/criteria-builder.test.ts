@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { buildCriteria, validateCriteria } from '../../src/utils/criteria-builder.js';
+import { ZohoMcpError, type CRMFieldInfo, type CriteriaNode } from '../../src/types/index.js';
+
+function field(api_name: string, data_type: string, extra: Partial<CRMFieldInfo> = {}): CRMFieldInfo {
+  return { api_name, data_type, display_label: api_name.replace(/_/g, ' '), ...extra } as CRMFieldInfo;
+}
+
+const fields = [
+  field('Last_Name', 'text'),
+  field('Annual_Revenue', 'currency'),
+  field('Email_Opt_Out', 'boolean'),
+  field('Lead_Status', 'picklist', {
+    pick_list_values: [
+      { actual_value: 'Contacted', display_value: 'Contacted' },
+      { actual_value: 'Qualified', display_value: 'Qualified' },
+    ],
+  } as Partial<CRMFieldInfo>),
+];
+
+function validationErrors(node: CriteriaNode): string[] {
+  try {
+    validateCriteria(node, fields);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ZohoMcpError);
+    return (error as ZohoMcpError).details?.errors as string[];
+  }
+  return [];
+}
+
+describe('buildCriteria', () => {
+  it('renders a single condition', () => {
+    expect(buildCriteria({ field: 'Last_Name', operator: 'equals', value: 'Smith' })).toBe('(Last_Name:equals:Smith)');
+  });
+
+  it('joins list values with commas', () => {
+    expect(buildCriteria({ field: 'Lead_Status', operator: 'in', value: ['Contacted', 'Qualified'] }))
+      .toBe('(Lead_Status:in:Contacted,Qualified)');
+  });
+
+  it('escapes parentheses, commas and backslashes in values', () => {
+    expect(buildCriteria({ field: 'Last_Name', operator: 'equals', value: 'Smith, (Jr.) \\' }))
+      .toBe('(Last_Name:equals:Smith\\, \\(Jr.\\) \\\\)');
+  });
+
+  it('renders null values', () => {
+    expect(buildCriteria({ field: 'Last_Name', operator: 'equals', value: null })).toBe('(Last_Name:equals:null)');
+  });
+
+  it('nests groups with their operators', () => {
+    const criteria: CriteriaNode = {
+      group_operator: 'and',
+      group: [
+        { field: 'Annual_Revenue', operator: 'between', value: [1000, 5000] },
+        {
+          group_operator: 'or',
+          group: [
+            { field: 'Lead_Status', operator: 'equals', value: 'Contacted' },
+            { field: 'Email_Opt_Out', operator: 'equals', value: false },
+          ],
+        },
+      ],
+    };
+    expect(buildCriteria(criteria))
+      .toBe('((Annual_Revenue:between:1000,5000)and((Lead_Status:equals:Contacted)or(Email_Opt_Out:equals:false)))');
+  });
+
+  it('unwraps groups of one condition', () => {
+    expect(buildCriteria({ group_operator: 'or', group: [{ field: 'Last_Name', operator: 'starts_with', value: 'Sm' }] }))
+      .toBe('(Last_Name:starts_with:Sm)');
+  });
+});
+
+describe('validateCriteria', () => {
+  it('accepts valid criteria', () => {
+    expect(validationErrors({
+      group_operator: 'and',
+      group: [
+        { field: 'Last_Name', operator: 'starts_with', value: 'Sm' },
+        { field: 'Annual_Revenue', operator: 'greater_than', value: 1000 },
+        { field: 'Lead_Status', operator: 'in', value: ['Contacted'] },
+      ],
+    })).toEqual([]);
+  });
+
+  it('reports unknown fields, suggesting the API name of a matching label', () => {
+    expect(validationErrors({ field: 'Last Name', operator: 'equals', value: 'Smith' }))
+      .toEqual(['Unknown field "Last Name". Did you mean: Last_Name?']);
+  });
+
+  it('rejects operators the data type does not support', () => {
+    const [error] = validationErrors({ field: 'Last_Name', operator: 'greater_than', value: 'A' });
+    expect(error).toContain('Operator "greater_than" is not supported for text field "Last_Name"');
+  });
+
+  it('checks the number of values each operator takes', () => {
+    expect(validationErrors({
+      group_operator: 'and',
+      group: [
+        { field: 'Annual_Revenue', operator: 'between', value: [1000] },
+        { field: 'Lead_Status', operator: 'in', value: [] },
+        { field: 'Last_Name', operator: 'equals', value: ['A', 'B'] },
+      ],
+    })).toEqual([
+      'Operator "between" on "Annual_Revenue" requires an array of exactly two values',
+      'Operator "in" on "Lead_Status" requires a non-empty array of values',
+      'Operator "equals" on "Last_Name" takes a single value',
+    ]);
+  });
+
+  it('rejects values that are not picklist options', () => {
+    const [error] = validationErrors({ field: 'Lead_Status', operator: 'equals', value: 'Won' });
+    expect(error).toBe('Value "Won" is not a picklist option of "Lead_Status". Valid options: Contacted, Qualified');
+  });
+
+  it('rejects empty groups', () => {
+    expect(validationErrors({ group_operator: 'and', group: [] })).toEqual(['Criteria groups must contain at least one condition']);
+  });
+
+  it('reports every problem in one error', () => {
+    expect(() => validateCriteria({
+      group_operator: 'or',
+      group: [
+        { field: 'Unknown', operator: 'equals', value: 1 },
+        { field: 'Email_Opt_Out', operator: 'starts_with', value: 'x' },
+      ],
+    }, fields)).toThrow(/^Invalid search criteria: Unknown field "Unknown"\.; Operator "starts_with"/);
+  });
+});
@@ -0,0 +1,138 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let dir: string;
+
+/**
+ * Import the authenticator afresh, so it reads the environment stubbed by the test
+ */
+async function loadAuthenticator(env: Record<string, string>) {
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  vi.resetModules();
+  const { McpAuthenticator } = await import('../../src/utils/mcp-auth.js');
+  const { apiKeyStore } = await import('../../src/utils/api-key-store.js');
+  return { authenticator: new McpAuthenticator(), apiKeyStore };
+}
+
+const unauthorized = (message: string) => expect.objectContaining({ code: 'UNAUTHORIZED', statusCode: 401, message: `Unauthorized: ${message}` });
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zoho-mcp-auth-'));
+  vi.stubEnv('ZOHO_CLIENT_ID', 'client-id');
+  vi.stubEnv('ZOHO_CLIENT_SECRET', 'client-secret');
+  vi.stubEnv('TOKEN_STORE', 'memory');
+  vi.stubEnv('API_KEYS_FILE', path.join(dir, 'api-keys.json'));
+  vi.stubEnv('USERS_FILE', path.join(dir, 'users.json'));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('McpAuthenticator with API keys', () => {
+  it('requires a bearer token and accepts valid API keys', async () => {
+    const { authenticator, apiKeyStore } = await loadAuthenticator({ MCP_AUTH_MODE: 'api_key' });
+    const { key, info } = await apiKeyStore.create('laptop');
+
+    await expect(authenticator.authenticate(undefined)).rejects.toThrow(unauthorized('a bearer token is required'));
+    await expect(authenticator.authenticate('Bearer zmcp_000000000000_guess')).rejects.toThrow(unauthorized('unknown or revoked API key'));
+    await expect(authenticator.authenticate('Bearer some-oauth-token')).rejects.toThrow(unauthorized('unsupported credentials'));
+    expect(await authenticator.authenticate(`Bearer ${key}`)).toEqual({ method: 'api_key', subject: info.id, name: 'laptop' });
+  });
+
+  it('stops a session whose API key was revoked after it connected', async () => {
+    const { authenticator, apiKeyStore } = await loadAuthenticator({ MCP_AUTH_MODE: 'api_key' });
+    const { key, info } = await apiKeyStore.create('laptop');
+    const session = await authenticator.authenticate(`Bearer ${key}`);
+
+    await expect(authenticator.verifySession(session)).resolves.toBeUndefined();
+    await apiKeyStore.revoke(info.id);
+    await expect(authenticator.verifySession(session)).rejects.toThrow(unauthorized('unknown or revoked API key'));
+  });
+
+  it('accepts API keys as the password of Basic credentials, for browsers', async () => {
+    const { authenticator, apiKeyStore } = await loadAuthenticator({ MCP_AUTH_MODE: 'api_key' });
+    const { key } = await apiKeyStore.create('browser');
+    const basic = (password: string) => `Basic ${Buffer.from(`anyone:${password}`).toString('base64')}`;
+
+    expect(await authenticator.acceptsCredential(basic(key))).toBe(true);
+    expect(await authenticator.acceptsCredential(`Bearer ${key}`)).toBe(true);
+    expect(await authenticator.acceptsCredential(basic('wrong'))).toBe(false);
+    expect(await authenticator.acceptsCredential(undefined)).toBe(false);
+  });
+
+  it('lets anonymous callers in only when authentication is off', async () => {
+    const { authenticator } = await loadAuthenticator({ MCP_AUTH_MODE: 'none' });
+
+    expect(await authenticator.authenticate(undefined)).toBeUndefined();
+  });
+});
+
+describe('McpAuthenticator with personal access keys', () => {
+  it('requires a personal access key when USER_AUTH_MODE is required', async () => {
+    const accessKey = 'zcrm_personal-key';
+    await fs.writeFile(path.join(dir, 'users.json'), JSON.stringify([{
+      id: 'default:111',
+      connection: 'default',
+      zoho_user_id: '111',
+      email: 'burns@example.com',
+      name: 'Monty Burns',
+      token_store_key: 'default.user.111',
+      access_key_hash: createHash('sha256').update(accessKey).digest('hex'),
+      linked_at: '2026-01-01T00:00:00.000Z',
+      updated_at: '2026-01-01T00:00:00.000Z',
+    }]));
+    const { authenticator, apiKeyStore } = await loadAuthenticator({ MCP_AUTH_MODE: 'api_key', USER_AUTH_MODE: 'required' });
+    const { key } = await apiKeyStore.create('shared');
+
+    expect(await authenticator.authenticate(`Bearer ${accessKey}`)).toMatchObject({ method: 'user_key', user_id: 'default:111' });
+    await expect(authenticator.authenticate('Bearer zcrm_unknown')).rejects.toThrow(unauthorized('unknown personal access key'));
+    await expect(authenticator.authenticate(`Bearer ${key}`)).rejects.toThrow(expect.objectContaining({ code: 'UNAUTHORIZED' }));
+  });
+});
+
+describe('McpAuthenticator with OAuth access tokens', () => {
+  const oauthEnv = {
+    MCP_AUTH_MODE: 'oauth',
+    MCP_OAUTH_ISSUER: 'https://auth.example.com/',
+    MCP_OAUTH_INTROSPECTION_URL: 'https://auth.example.com/introspect',
+    MCP_OAUTH_RESOURCE: 'https://mcp.example.com',
+    MCP_OAUTH_SCOPES: 'crm.read',
+  };
+
+  function introspection(result: Record<string, unknown>) {
+    return vi.spyOn(axios, 'post').mockResolvedValue({ data: { active: true, iss: 'https://auth.example.com', aud: 'https://mcp.example.com/', scope: 'crm.read crm.write', ...result } });
+  }
+
+  it('accepts active tokens for this server, and reuses the introspection result', async () => {
+    const post = introspection({ sub: 'user-1', username: 'burns' });
+    const { authenticator } = await loadAuthenticator(oauthEnv);
+
+    const session = await authenticator.authenticate('Bearer access-token');
+    await authenticator.authenticate('Bearer access-token');
+
+    expect(session).toEqual({ method: 'oauth', subject: 'user-1', scopes: ['crm.read', 'crm.write'], name: 'burns' });
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0]?.[0]).toBe('https://auth.example.com/introspect');
+  });
+
+  it.each([
+    ['inactive tokens', { active: false }, 'the access token is not active'],
+    ['tokens of another issuer', { iss: 'https://other.example.com' }, 'the access token was issued by another authorization server'],
+    ['tokens for another server', { aud: 'https://other.example.com' }, 'the access token was not issued for this server'],
+    ['tokens without the required scopes', { scope: 'crm.write' }, 'the access token lacks the scopes: crm.read'],
+  ])('rejects %s', async (_case, result, message) => {
+    introspection(result);
+    const { authenticator } = await loadAuthenticator(oauthEnv);
+
+    await expect(authenticator.authenticate('Bearer access-token')).rejects.toThrow(unauthorized(message));
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getMetadataCache, invalidateMetadataCache, MetadataCache } from '../../src/utils/metadata-cache.js';
+
+describe('MetadataCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('loads a key once and serves it from the cache until it expires', async () => {
+    const cache = new MetadataCache('test', 1000);
+    const load = vi.fn(async () => ['Leads']);
+
+    expect(await cache.get('modules:all', load)).toEqual(['Leads']);
+    expect(await cache.get('modules:all', load)).toEqual(['Leads']);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1001);
+    expect(cache.size).toBe(0);
+    await cache.get('modules:all', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('reloads when fresh is set', async () => {
+    const cache = new MetadataCache('test', 1000);
+    const load = vi.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+
+    await cache.get('fields:Leads', load);
+    expect(await cache.get('fields:Leads', load, true)).toBe('new');
+    expect(await cache.get('fields:Leads', load)).toBe('new');
+  });
+
+  it('shares one load between concurrent callers', async () => {
+    const cache = new MetadataCache('test', 1000);
+    const load = vi.fn(async () => 'fields');
+
+    const results = await Promise.all([cache.get('fields:Deals', load), cache.get('fields:Deals', load)]);
+    expect(results).toEqual(['fields', 'fields']);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache failed loads', async () => {
+    const cache = new MetadataCache('test', 1000);
+    const load = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValueOnce('fields');
+
+    await expect(cache.get('fields:Deals', load)).rejects.toThrow('offline');
+    expect(await cache.get('fields:Deals', load)).toBe('fields');
+  });
+
+  it('caches nothing with a TTL of 0', async () => {
+    const cache = new MetadataCache('test', 0);
+    const load = vi.fn(async () => 'fields');
+
+    await cache.get('fields:Deals', load);
+    await cache.get('fields:Deals', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidates one module or everything', async () => {
+    const cache = new MetadataCache('test', 1000);
+    for (const key of ['modules:all', 'fields:Leads', 'layouts:Leads', 'fields:Deals']) {
+      await cache.get(key, async () => key);
+    }
+
+    expect(cache.invalidate('Leads')).toBe(2);
+    expect(cache.size).toBe(2);
+    expect(cache.invalidate()).toBe(2);
+    expect(cache.size).toBe(0);
+  });
+
+  it('invalidates only the field, layout and related list entries of a module', async () => {
+    const cache = new MetadataCache('test', 1000);
+    for (const key of ['modules:all', 'fields:all', 'layouts:all', 'related_lists:all', 'fields:Deals_all']) {
+      await cache.get(key, async () => key);
+    }
+
+    expect(cache.invalidate('all')).toBe(3);
+    expect(Object.keys(cache.toJSON())).toEqual(['modules:all', 'fields:Deals_all']);
+  });
+
+  it('restores only unexpired entries', () => {
+    const cache = new MetadataCache('test', 1000);
+    cache.restore({
+      'fields:Leads': { value: [], expires_at: Date.now() + 500 },
+      'fields:Deals': { value: [], expires_at: Date.now() - 1 },
+    });
+    expect(Object.keys(cache.toJSON())).toEqual(['fields:Leads']);
+  });
+});
+
+describe('invalidateMetadataCache', () => {
+  it('drops the entries of a connection and its linked users only', async () => {
+    const scopes = ['crm_a', 'crm_a.user.1', 'crm_b'];
+    for (const scope of scopes) {
+      await getMetadataCache(scope).get('fields:Leads', async () => []);
+    }
+
+    expect(invalidateMetadataCache('crm_a', 'Leads')).toBe(2);
+    expect(scopes.map((scope) => getMetadataCache(scope).size)).toEqual([0, 0, 1]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { resolveCriteriaFields, resolveFieldNames, resolveModuleName } from '../../src/utils/name-resolver.js';
+import { InvalidFieldError, InvalidModuleError, type CRMFieldInfo, type CRMModuleInfo } from '../../src/types/index.js';
+
+function module(api_name: string, plural_label: string, singular_label: string): CRMModuleInfo {
+  return { api_name, plural_label, singular_label } as CRMModuleInfo;
+}
+
+function field(api_name: string, display_label: string): CRMFieldInfo {
+  return { api_name, display_label, data_type: 'text' } as CRMFieldInfo;
+}
+
+const modules = [
+  module('Leads', 'Leads', 'Lead'),
+  module('Contacts', 'Contacts', 'Contact'),
+  module('Sales_Orders', 'Sales Orders', 'Sales Order'),
+  module('Purchase_Orders', 'Purchase Orders', 'Purchase Order'),
+];
+
+const fields = [
+  field('Last_Name', 'Last Name'),
+  field('Email', 'Email'),
+  field('Secondary_Email', 'Secondary Email'),
+  field('Deal_Name', 'Deal Name'),
+];
+
+describe('resolveModuleName', () => {
+  it('keeps exact API names', () => {
+    expect(resolveModuleName('Contacts', modules)).toBe('Contacts');
+  });
+
+  it('resolves labels ignoring case and separators', () => {
+    expect(resolveModuleName('Sales Orders', modules)).toBe('Sales_Orders');
+    expect(resolveModuleName('sales order', modules)).toBe('Sales_Orders');
+    expect(resolveModuleName('lead', modules)).toBe('Leads');
+  });
+
+  it('resolves near-miss spellings', () => {
+    expect(resolveModuleName('Contcts', modules)).toBe('Contacts');
+  });
+
+  it('reports ambiguous names with the candidates', () => {
+    expect(() => resolveModuleName('Orders', modules)).toThrow('Module "Orders" is ambiguous. Did you mean: Sales_Orders, Purchase_Orders?');
+  });
+
+  it('reports unknown names as invalid modules', () => {
+    expect(() => resolveModuleName('Invoices', modules)).toThrow(InvalidModuleError);
+  });
+});
+
+describe('resolveFieldNames', () => {
+  it('resolves API names, labels and spellings in order', () => {
+    expect(resolveFieldNames('Deals', ['Email', 'deal name', 'Last_Nmae'], fields)).toEqual(['Email', 'Deal_Name', 'Last_Name']);
+  });
+
+  it('passes id, lookup paths and system fields through', () => {
+    expect(resolveFieldNames('Deals', ['id', 'Account_Name.Industry', '$approved'], fields)).toEqual(['id', 'Account_Name.Industry', '$approved']);
+  });
+
+  it('prefers the exact match over fields containing the input', () => {
+    expect(resolveFieldNames('Deals', ['email'], fields)).toEqual(['Email']);
+  });
+
+  it('accepts only API names and labels for writes', () => {
+    expect(resolveFieldNames('Deals', ['Last Name', 'EMAIL', 'deal_name'], fields, false)).toEqual(['Last_Name', 'Email', 'Deal_Name']);
+  });
+
+  it('refuses partial names and misspellings for writes, with suggestions', () => {
+    expect(() => resolveFieldNames('Deals', ['Last'], fields, false)).toThrow('Unknown field "Last". Did you mean: Last_Name?');
+    expect(() => resolveFieldNames('Deals', ['Secondary'], fields, false)).toThrow('Unknown field "Secondary". Did you mean: Secondary_Email');
+    expect(() => resolveFieldNames('Deals', ['Last_Nmae'], fields, false)).toThrow('Unknown field "Last_Nmae". Did you mean: Last_Name');
+  });
+
+  it('lists every unresolved field in one error', () => {
+    try {
+      resolveFieldNames('Deals', ['Foo', 'Email', 'Bar'], fields);
+      expect.fail('expected an error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidFieldError);
+      expect((error as InvalidFieldError).details).toMatchObject({ module: 'Deals', errors: [expect.stringContaining('"Foo"'), expect.stringContaining('"Bar"')] });
+    }
+  });
+});
+
+describe('resolveCriteriaFields', () => {
+  it('renames the fields of every condition in the tree', () => {
+    expect(resolveCriteriaFields('Deals', {
+      group_operator: 'and',
+      group: [
+        { field: 'Deal Name', operator: 'starts_with', value: 'Big' },
+        { group_operator: 'or', group: [{ field: 'email', operator: 'equals', value: 'a@example.com' }] },
+      ],
+    }, fields)).toEqual({
+      group_operator: 'and',
+      group: [
+        { field: 'Deal_Name', operator: 'starts_with', value: 'Big' },
+        { group_operator: 'or', group: [{ field: 'Email', operator: 'equals', value: 'a@example.com' }] },
+      ],
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { editDistance, normalizeName, suggestNames } from '../../src/utils/name-suggestions.js';
+
+describe('editDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('same', 'same')).toBe(0);
+  });
+});
+
+describe('normalizeName', () => {
+  it('ignores case, spaces, underscores and hyphens', () => {
+    expect(normalizeName('Sales_Orders')).toBe(normalizeName('sales orders'));
+    expect(normalizeName('Last-Name')).toBe('lastname');
+  });
+});
+
+describe('suggestNames', () => {
+  const modules = ['Accounts', 'Contacts', 'Deals', 'Sales_Orders', 'Purchase_Orders'];
+
+  it('ranks the closest candidates first', () => {
+    expect(suggestNames('Contcts', modules)).toEqual(['Contacts']);
+  });
+
+  it('treats prefixes as close matches', () => {
+    expect(suggestNames('Sales', modules)).toEqual(['Sales_Orders']);
+  });
+
+  it('drops candidates too far from the input', () => {
+    expect(suggestNames('Invoices', modules)).toEqual([]);
+  });
+
+  it('honours the limit and the maximum distance', () => {
+    expect(suggestNames('Orders', modules, 1, Infinity)).toHaveLength(1);
+    expect(suggestNames('Dels', modules, 3, 0)).toEqual([]);
+  });
+});
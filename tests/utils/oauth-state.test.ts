@@ -0,0 +1,63 @@
+import { createHash } from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OAUTH_STATE_TTL_MS, OAuthStateManager } from '../../src/utils/oauth-state.js';
+
+describe('OAuthStateManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('round-trips the connection and mode of a flow', () => {
+    const manager = new OAuthStateManager('secret');
+    const { state, nonce } = manager.create('eu_org', 'user');
+    expect(manager.verify(state, nonce)).toMatchObject({ connection: 'eu_org', mode: 'user' });
+  });
+
+  it('derives a PKCE verifier matching the S256 challenge', () => {
+    const manager = new OAuthStateManager('secret');
+    const { state, nonce, codeChallenge } = manager.create('default', 'connection');
+    const { codeVerifier } = manager.verify(state, nonce);
+    expect(codeVerifier).toMatch(/^[A-Za-z0-9_-]{43,128}$/);
+    expect(createHash('sha256').update(codeVerifier).digest('base64url')).toBe(codeChallenge);
+  });
+
+  it('rejects a tampered payload', () => {
+    const manager = new OAuthStateManager('secret');
+    const { state, nonce } = manager.create('default', 'connection');
+    const [, signature] = state.split('.');
+    const forged = Buffer.from(JSON.stringify({ connection: 'default', mode: 'user', nonce, expires_at: Date.now() + 60_000 })).toString('base64url');
+    expect(() => manager.verify(`${forged}.${signature}`, nonce)).toThrow(/signature mismatch/);
+  });
+
+  it('rejects a state signed with another secret', () => {
+    const { state, nonce } = new OAuthStateManager('secret').create('default', 'connection');
+    expect(() => new OAuthStateManager('other').verify(state, nonce)).toThrow(/signature mismatch/);
+  });
+
+  it('accepts a state after a restart when the secret is configured', () => {
+    const { state, nonce } = new OAuthStateManager('secret').create('default', 'connection');
+    expect(new OAuthStateManager('secret').verify(state, nonce).connection).toBe('default');
+  });
+
+  it('rejects an expired state', () => {
+    vi.useFakeTimers();
+    const manager = new OAuthStateManager('secret');
+    const { state, nonce } = manager.create('default', 'connection');
+    vi.advanceTimersByTime(OAUTH_STATE_TTL_MS + 1);
+    expect(() => manager.verify(state, nonce)).toThrow(/took too long/);
+  });
+
+  it('rejects a callback from a browser without the nonce cookie', () => {
+    const manager = new OAuthStateManager('secret');
+    const { state } = manager.create('default', 'connection');
+    expect(() => manager.verify(state, undefined)).toThrow(/another browser/);
+    expect(() => manager.verify(state, 'someone-else')).toThrow(/another browser/);
+  });
+
+  it('accepts each state only once', () => {
+    const manager = new OAuthStateManager('secret');
+    const { state, nonce } = manager.create('default', 'connection');
+    manager.verify(state, nonce);
+    expect(() => manager.verify(state, nonce)).toThrow(/already completed/);
+  });
+});
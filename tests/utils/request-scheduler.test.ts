@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRequestScheduler, parseRetryAfter, RequestScheduler } from '../../src/utils/request-scheduler.js';
+
+/**
+ * A request that stays in flight until released
+ */
+function deferred(): { request: () => Promise<void>; release: () => void } {
+  let release = () => {};
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return { request: () => done, release };
+}
+
+describe('parseRetryAfter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads seconds', () => {
+    expect(parseRetryAfter('30')).toBe(30_000);
+    expect(parseRetryAfter(1.5)).toBe(1_500);
+  });
+
+  it('reads HTTP dates', () => {
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT')).toBe(10_000);
+  });
+
+  it('never returns a negative delay', () => {
+    expect(parseRetryAfter('-5')).toBe(0);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT')).toBe(0);
+  });
+
+  it('returns null for missing or unreadable values', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('limits the number of requests in flight', async () => {
+    const scheduler = new RequestScheduler('test', { maxConcurrent: 2, maxRequests: 100, windowMs: 1000 });
+    const requests = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const runs = requests.map(({ request }, index) => scheduler.run(() => {
+      started.push(index);
+      return request();
+    }));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+    expect(scheduler.getStatus()).toMatchObject({ active_requests: 2, queued_requests: 1 });
+
+    requests[0]?.release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1, 2]);
+
+    requests.forEach(({ release }) => release());
+    await Promise.all(runs);
+    expect(scheduler.getStatus().active_requests).toBe(0);
+  });
+
+  it('spends one token per request and refills them over the window', async () => {
+    const scheduler = new RequestScheduler('test', { maxConcurrent: 10, maxRequests: 2, windowMs: 1000 });
+    const started: number[] = [];
+    const runs = [0, 1, 2].map((index) => scheduler.run(async () => {
+      started.push(index);
+    }));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+
+    // Two tokens per second: the next one is back after 500 ms
+    await vi.advanceTimersByTimeAsync(499);
+    expect(started).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([0, 1, 2]);
+
+    await Promise.all(runs);
+  });
+
+  it('holds queued requests while paused', async () => {
+    const scheduler = new RequestScheduler('test', { maxConcurrent: 10, maxRequests: 100, windowMs: 1000 });
+    scheduler.pause(2000);
+    expect(scheduler.getStatus().paused_until).not.toBeNull();
+
+    let done = false;
+    const run = scheduler.run(async () => {
+      done = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await run;
+    expect(done).toBe(true);
+  });
+
+  it('frees the slot when a request fails', async () => {
+    const scheduler = new RequestScheduler('test', { maxConcurrent: 1, maxRequests: 100, windowMs: 1000 });
+    await expect(scheduler.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(scheduler.run(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('tracks API credits from rate limit headers', () => {
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const scheduler = new RequestScheduler('test', { maxConcurrent: 1, maxRequests: 100, windowMs: 1000 });
+
+    scheduler.recordResponse({ 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '4200', 'x-ratelimit-reset': '60' });
+    expect(scheduler.getStatus().api_credits).toMatchObject({
+      limit: 5000,
+      remaining: 4200,
+      reset_at: '2026-01-01T00:01:00.000Z',
+    });
+
+    // Headers without limits leave the last known values
+    scheduler.recordResponse({ 'content-type': 'application/json' });
+    expect(scheduler.getStatus().api_credits.remaining).toBe(4200);
+  });
+
+  it('counts retries and throttled responses', () => {
+    const scheduler = new RequestScheduler('test', { maxConcurrent: 1, maxRequests: 100, windowMs: 1000 });
+    scheduler.recordRetry(true);
+    scheduler.recordRetry(false);
+    expect(scheduler.getStatus()).toMatchObject({ retried_requests: 2, throttled_responses: 1 });
+  });
+});
+
+describe('getRequestScheduler', () => {
+  it('shares one scheduler per connection', () => {
+    expect(getRequestScheduler('a')).toBe(getRequestScheduler('a'));
+    expect(getRequestScheduler('a')).not.toBe(getRequestScheduler('b'));
+  });
+});
@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTokenStore, FileTokenStore, MemoryTokenStore } from '../../src/utils/token-store.js';
+import { config } from '../../src/config/index.js';
+import { createTestClient, tokenOf } from '../helpers/zoho-client.js';
+
+const tokens = { access_token: 'token-1', refresh_token: 'refresh-token', expires_at: '2026-01-01T00:00:00.000Z' };
+
+describe('FileTokenStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zoho-tokens-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('saves tokens to a file only its owner can read, and loads them back', async () => {
+    const filePath = path.join(dir, 'nested', 'tokens.json');
+    const store = new FileTokenStore(filePath);
+
+    await store.save(tokens);
+
+    expect(await store.load()).toEqual(tokens);
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+    expect(await fs.readdir(path.dirname(filePath))).toEqual(['tokens.json']);
+  });
+
+  it('loads nothing when the file does not exist, and removes it when cleared', async () => {
+    const filePath = path.join(dir, 'tokens.json');
+    const store = new FileTokenStore(filePath);
+    expect(await store.load()).toBeNull();
+
+    await store.save(tokens);
+    await store.clear();
+
+    expect(await store.load()).toBeNull();
+    await expect(fs.access(filePath)).rejects.toThrow();
+  });
+
+  it('keeps the last of concurrent saves', async () => {
+    const store = new FileTokenStore(path.join(dir, 'tokens.json'));
+
+    await Promise.all(['a', 'b', 'c'].map((accessToken) => store.save({ ...tokens, access_token: accessToken })));
+
+    expect((await store.load())?.access_token).toBe('c');
+  });
+});
+
+describe('MemoryTokenStore', () => {
+  it('notifies listeners of saved and cleared tokens until they unsubscribe', async () => {
+    const store = new MemoryTokenStore();
+    const listener = vi.fn();
+    const unsubscribe = store.onChange(listener);
+
+    await store.save(tokens);
+    await store.clear();
+    unsubscribe();
+    await store.save(tokens);
+
+    expect(listener.mock.calls).toEqual([[tokens], [null]]);
+  });
+
+  it('returns copies, so callers cannot change the stored tokens', async () => {
+    const store = new MemoryTokenStore();
+    await store.save(tokens);
+
+    const loaded = await store.load();
+    loaded!.access_token = 'changed';
+
+    expect((await store.load())?.access_token).toBe('token-1');
+  });
+});
+
+describe('ZohoCRMClient token store', () => {
+  it('uses tokens saved to its store, e.g. after the OAuth flow', async () => {
+    const { client, tokenStore, requests } = await createTestClient(() => ({ data: {} }));
+    await client.testConnection();
+
+    await tokenStore.save({ ...tokens, access_token: 'token-2', expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+    await client.testConnection();
+
+    expect(requests.map(tokenOf)).toEqual(['token-1', 'token-2']);
+    client.stopTokenRenewal();
+  });
+});
+
+describe('createTokenStore', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('gives each connection its own token file next to the configured one', () => {
+    vi.spyOn(config, 'tokenStore', 'get').mockReturnValue({ type: 'file', path: '/data/tokens.json' });
+
+    expect(createTokenStore()).toEqual(new FileTokenStore('/data/tokens.json'));
+    expect(createTokenStore('eu_org')).toEqual(new FileTokenStore('/data/tokens.eu_org.json'));
+  });
+
+  it('creates the configured kind of store', () => {
+    vi.spyOn(config, 'tokenStore', 'get').mockReturnValue({ type: 'memory', path: undefined });
+    expect(createTokenStore().kind).toBe('memory');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError, toolAction, toolError } from '../../src/utils/tool-errors.js';
+import { ZohoApiClientError, ZohoMcpError, type McpSessionAuth } from '../../src/types/index.js';
+
+function zohoError(status: number, body: Record<string, unknown> = {}): ZohoApiClientError {
+  return new ZohoApiClientError('Request failed', status, { response: body, originalError: new Error('axios') });
+}
+
+const userSession: McpSessionAuth = { method: 'user_key', subject: 'default:1', user_id: 'default:1', connection: 'default' };
+
+describe('classifyError', () => {
+  it.each([
+    [429, {}, 'RATE_LIMITED'],
+    [403, {}, 'PERMISSION_DENIED'],
+    [400, { code: 'OAUTH_SCOPE_MISMATCH' }, 'PERMISSION_DENIED'],
+    [401, {}, 'AUTH_REQUIRED'],
+    [404, {}, 'NOT_FOUND'],
+    [400, { code: 'INVALID_MODULE' }, 'INVALID_MODULE'],
+    [400, { code: 'INVALID_DATA', details: { api_name: 'Email' } }, 'INVALID_FIELD'],
+    [400, { code: 'MANDATORY_NOT_FOUND' }, 'ZOHO_API_ERROR'],
+  ])('maps status %i with %j to %s', (status, body, code) => {
+    expect(classifyError(zohoError(status, body), undefined).code).toBe(code);
+  });
+
+  it('keeps what Zoho said and drops the raw response', () => {
+    const error = classifyError(zohoError(400, { code: 'INVALID_DATA', message: 'invalid data', details: { api_name: 'Email' } }), undefined);
+    expect(error.message).toBe('Request failed (Email)');
+    expect(error.details).toEqual({ zoho: { code: 'INVALID_DATA', message: 'invalid data', details: { api_name: 'Email' } } });
+  });
+
+  it('points to the authorization URL of the connection', () => {
+    expect(classifyError(zohoError(401), undefined, 'eu_org').hint).toMatch(/\/oauth\/authorize\?connection=eu_org$/);
+  });
+
+  it('points linked users to their own account link', () => {
+    expect(classifyError(zohoError(401), userSession).hint).toMatch(/\/oauth\/authorize\?mode=user&connection=default$/);
+  });
+
+  it('passes other server errors through', () => {
+    const error = new ZohoMcpError('Unknown connection "x"', 'UNKNOWN_CONNECTION', 404);
+    expect(classifyError(error, undefined)).toBe(error);
+  });
+
+  it('wraps unexpected errors as internal errors', () => {
+    expect(classifyError(new TypeError('oops'), undefined)).toMatchObject({ code: 'INTERNAL_ERROR', statusCode: 500, message: 'oops' });
+  });
+});
+
+describe('toolError', () => {
+  it('returns the classified error as JSON, flagged with isError', () => {
+    const result = toolError('Search records', zohoError(429), undefined);
+    expect(result.isError).toBe(true);
+
+    const [content] = result.content;
+    const body = JSON.parse(content?.type === 'text' ? content.text : '');
+    expect(body.error).toMatchObject({ code: 'RATE_LIMITED', status: 429, message: 'Search records failed: Request failed' });
+    expect(body.error.hint).toEqual(expect.any(String));
+    expect(body.error).not.toHaveProperty('details');
+  });
+});
+
+describe('toolAction', () => {
+  it.each([
+    ['search_records', 'Search records'],
+    ['execute_coql', 'Execute COQL'],
+    ['invalidate_metadata_cache', 'Invalidate metadata cache'],
+    ['health_check', 'Health check'],
+  ])('names %s "%s"', (tool, action) => {
+    expect(toolAction(tool)).toBe(action);
+  });
+});
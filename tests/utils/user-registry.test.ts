@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LinkedUser } from '../../src/types/index.js';
+
+const accessKey = 'zcrm_personal-key';
+
+const linkedUser: LinkedUser = {
+  id: 'default:111',
+  connection: 'default',
+  zoho_user_id: '111',
+  email: 'burns@example.com',
+  name: 'Monty Burns',
+  token_store_key: 'default.user.111',
+  access_key_hash: createHash('sha256').update(accessKey).digest('hex'),
+  linked_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+};
+
+let dir: string;
+
+/**
+ * Import the registries afresh with USER_AUTH_MODE set, and load the linked users
+ */
+async function loadRegistry(mode: 'disabled' | 'optional' | 'required') {
+  vi.stubEnv('USER_AUTH_MODE', mode);
+  vi.resetModules();
+  const { UserRegistry } = await import('../../src/utils/user-registry.js');
+  const { connectionRegistry } = await import('../../src/utils/connection-registry.js');
+  const registry = new UserRegistry();
+  await registry.load();
+  return { registry, connectionRegistry };
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zoho-users-'));
+  await fs.writeFile(path.join(dir, 'users.json'), JSON.stringify([linkedUser]));
+  vi.stubEnv('ZOHO_CLIENT_ID', 'client-id');
+  vi.stubEnv('ZOHO_CLIENT_SECRET', 'client-secret');
+  vi.stubEnv('TOKEN_STORE', 'memory');
+  vi.stubEnv('USERS_FILE', path.join(dir, 'users.json'));
+  vi.stubEnv('ZOHO_CONNECTIONS', JSON.stringify([{ name: 'eu_org', region: 'eu' }]));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('UserRegistry', () => {
+  it('identifies the owner of a personal access key, and no one for other keys', async () => {
+    const { registry } = await loadRegistry('optional');
+
+    expect(await registry.authenticate(accessKey)).toEqual({
+      method: 'user_key',
+      subject: 'default:111',
+      user_id: 'default:111',
+      connection: 'default',
+      email: 'burns@example.com',
+      name: 'Monty Burns',
+    });
+    expect(await registry.authenticate('zcrm_other-key')).toBeNull();
+  });
+
+  it('gives a linked user a client of their own on their connection', async () => {
+    const { registry, connectionRegistry } = await loadRegistry('optional');
+    const session = await registry.authenticate(accessKey);
+
+    const client = registry.getClient(session);
+
+    expect(client).toBe(registry.getClient(session, 'default'));
+    expect(client).not.toBe(connectionRegistry.getClient('default'));
+    expect(client.getTokenStatus().has_refresh_token).toBe(false);
+    registry.stopTokenRenewal();
+  });
+
+  it('does not let a personal key reach another connection', async () => {
+    const { registry } = await loadRegistry('optional');
+    const session = await registry.authenticate(accessKey);
+
+    expect(() => registry.getClient(session, 'eu_org')).toThrow(expect.objectContaining({
+      code: 'PERMISSION_DENIED',
+      message: 'Your access key is linked to connection "default", not "eu_org"',
+    }));
+  });
+
+  it('asks a user whose link was removed to link again', async () => {
+    const { registry } = await loadRegistry('optional');
+
+    expect(() => registry.getClient({ method: 'user_key', subject: 'default:222', user_id: 'default:222', connection: 'default' }))
+      .toThrow(expect.objectContaining({ code: 'AUTH_REQUIRED', message: 'Your Zoho account link was removed' }));
+  });
+
+  it('uses the shared client for callers without a personal key, unless keys are required', async () => {
+    const optional = await loadRegistry('optional');
+    expect(optional.registry.getClient(undefined, 'eu_org')).toBe(optional.connectionRegistry.getClient('eu_org'));
+
+    const required = await loadRegistry('required');
+    expect(() => required.registry.getClient(undefined)).toThrow(expect.objectContaining({ code: 'AUTH_REQUIRED' }));
+  });
+
+  it('ignores personal keys when per-user access is disabled', async () => {
+    const { registry, connectionRegistry } = await loadRegistry('disabled');
+    const session = await registry.authenticate(accessKey);
+
+    expect(registry.getClient(session, 'eu_org')).toBe(connectionRegistry.getClient('eu_org'));
+  });
+});
@@ -0,0 +1,130 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { createTestClient, modulesResponse, type FakeResponse } from '../../helpers/zoho-client.js';
+import { config } from '../../../src/config/index.js';
+
+const uploaded: FakeResponse = { data: { data: [{ code: 'SUCCESS', status: 'success', message: 'attachment uploaded', details: { id: 'a1' } }] } };
+
+function attachmentsServer(respond: (request: InternalAxiosRequestConfig) => FakeResponse = () => uploaded) {
+  return (request: InternalAxiosRequestConfig): FakeResponse => (request.url === '/settings/modules' ? modulesResponse('Deals') : respond(request));
+}
+
+/**
+ * The file a multipart upload request carries
+ */
+async function uploadedFile(request: InternalAxiosRequestConfig | undefined): Promise<{ name: string; content: string }> {
+  const file = (request?.data as FormData).get('file') as File;
+  return { name: file.name, content: await file.text() };
+}
+
+describe('ZohoCRMClient attachments', () => {
+  let tempDir: string;
+  let uploadDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'zoho-attachments-')));
+    uploadDir = path.join(tempDir, 'uploads');
+    await fs.mkdir(path.join(uploadDir, 'quotes'), { recursive: true });
+    await fs.writeFile(path.join(uploadDir, 'quotes', 'quote.pdf'), 'quote');
+    await fs.writeFile(path.join(tempDir, 'secret.txt'), 'secret');
+    await fs.symlink(path.join(tempDir, 'secret.txt'), path.join(uploadDir, 'link.txt'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function useUploadDir(dir: string | undefined, maxUploadBytes = 1024) {
+    vi.spyOn(config, 'attachments', 'get').mockReturnValue({ uploadDir: dir, maxUploadBytes, maxDownloadBytes: 1024 });
+  }
+
+  it('uploads a file from inside the upload directory', async () => {
+    useUploadDir(uploadDir);
+    const { client, requests } = await createTestClient(attachmentsServer());
+
+    const [result] = await client.uploadAttachment({ module: 'Deals', record_id: '42', file_path: 'quotes/quote.pdf' });
+
+    expect(result?.details.id).toBe('a1');
+    expect(requests.at(-1)?.url).toBe('/Deals/42/Attachments');
+    expect(await uploadedFile(requests.at(-1))).toEqual({ name: 'quote.pdf', content: 'quote' });
+  });
+
+  it.each([
+    ['a path leading out of it', () => '../secret.txt'],
+    ['an absolute path outside it', () => path.join(tempDir, 'secret.txt')],
+    ['a symlink inside it pointing outside', () => 'link.txt'],
+  ])('refuses %s', async (_case, filePath) => {
+    useUploadDir(uploadDir);
+    const { client, requests } = await createTestClient(attachmentsServer());
+
+    await expect(client.uploadAttachment({ module: 'Deals', record_id: '42', file_path: filePath() }))
+      .rejects.toThrow(`File path must be inside ${uploadDir}`);
+    expect(requests.filter((request) => request.method === 'post')).toHaveLength(0);
+  });
+
+  it('refuses local paths when no upload directory is configured', async () => {
+    useUploadDir(undefined);
+    const { client } = await createTestClient(attachmentsServer());
+
+    await expect(client.uploadAttachment({ module: 'Deals', record_id: '42', file_path: '/etc/hostname' }))
+      .rejects.toThrow('requires ATTACHMENT_UPLOAD_DIR');
+  });
+
+  it('reports a missing file', async () => {
+    useUploadDir(uploadDir);
+    const { client } = await createTestClient(attachmentsServer());
+
+    await expect(client.uploadAttachment({ module: 'Deals', record_id: '42', file_path: 'missing.pdf' }))
+      .rejects.toThrow('File not found: missing.pdf');
+  });
+
+  it('uploads base64 content under the given file name, up to the size limit', async () => {
+    useUploadDir(undefined, 8);
+    const { client, requests } = await createTestClient(attachmentsServer());
+
+    await client.uploadAttachment({ module: 'Deals', record_id: '42', content_base64: Buffer.from('hello').toString('base64'), file_name: 'hello.txt' });
+    expect(await uploadedFile(requests.at(-1))).toEqual({ name: 'hello.txt', content: 'hello' });
+
+    await expect(client.uploadAttachment({ module: 'Deals', record_id: '42', content_base64: Buffer.from('hello').toString('base64') }))
+      .rejects.toThrow('file_name is required');
+    await expect(client.uploadAttachment({ module: 'Deals', record_id: '42', content_base64: Buffer.from('hello world').toString('base64'), file_name: 'big.txt' }))
+      .rejects.toThrow('above the 8 byte upload limit');
+  });
+
+  it('attaches a URL with its title', async () => {
+    const { client, requests } = await createTestClient(attachmentsServer());
+
+    await client.uploadAttachment({ module: 'Deals', record_id: '42', url: 'https://example.com/spec', title: 'Spec' });
+
+    const form = requests.at(-1)?.data as FormData;
+    expect([...form.entries()]).toEqual([['attachmentUrl', 'https://example.com/spec'], ['title', 'Spec']]);
+  });
+
+  it('takes exactly one source', async () => {
+    const { client } = await createTestClient(attachmentsServer());
+
+    await expect(client.uploadAttachment({ module: 'Deals', record_id: '42' })).rejects.toThrow('Provide exactly one of');
+    await expect(client.uploadAttachment({ module: 'Deals', record_id: '42', url: 'https://example.com', file_path: 'quote.pdf' }))
+      .rejects.toThrow('Provide exactly one of');
+  });
+
+  it('downloads an attachment with its file name and content type', async () => {
+    const { client, requests } = await createTestClient(attachmentsServer(() => ({
+      data: new TextEncoder().encode('%PDF').buffer,
+      headers: { 'content-type': 'application/pdf', 'content-disposition': 'attachment; filename*=UTF-8\'\'r%C3%A9sum%C3%A9.pdf' },
+    })));
+
+    const download = await client.downloadAttachment({ module: 'Deals', record_id: '42', attachment_id: 'a1' });
+
+    expect(requests.at(-1)?.url).toBe('/Deals/42/Attachments/a1');
+    expect(download).toMatchObject({ attachment_id: 'a1', file_name: 'résumé.pdf', content_type: 'application/pdf', size: 4 });
+    expect(download.content.toString()).toBe('%PDF');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { bodyOf, createTestClient } from '../../helpers/zoho-client.js';
+import { ZohoApiClientError } from '../../../src/types/index.js';
+
+describe('ZohoCRMClient lead conversion', () => {
+  it('creates new records by default and returns their IDs', async () => {
+    const { client, requests } = await createTestClient(() => ({
+      data: { data: [{ code: 'SUCCESS', status: 'success', message: 'converted', details: { Accounts: '1', Contacts: '2', Deals: null } }] },
+    }));
+
+    expect(await client.convertLead({ lead_id: '42' })).toEqual({ lead_id: '42', account_id: '1', contact_id: '2', deal_id: null });
+    expect(requests.at(-1)?.url).toBe('/Leads/42/actions/convert');
+    expect(bodyOf(requests.at(-1)!)).toEqual({ data: [{}] });
+  });
+
+  it('attaches the lead to existing records and creates a deal', async () => {
+    const { client, requests } = await createTestClient(() => ({
+      data: {
+        data: [{
+          code: 'SUCCESS',
+          status: 'success',
+          message: 'converted',
+          details: { Accounts: { id: '1', name: 'Acme' }, Contacts: { id: '2', name: 'Burns' }, Deals: { id: '3', name: 'Renewal' } },
+        }],
+      },
+    }));
+
+    const result = await client.convertLead({
+      lead_id: '42',
+      account_id: '1',
+      contact_id: '2',
+      overwrite: true,
+      notify_lead_owner: false,
+      assign_to: '99',
+      deal: { Deal_Name: 'Renewal', Stage: 'Qualification', Closing_Date: '2026-12-31', Amount: 5000 },
+    });
+
+    expect(result).toEqual({ lead_id: '42', account_id: '1', contact_id: '2', deal_id: '3' });
+    expect(bodyOf(requests.at(-1)!)).toEqual({
+      data: [{
+        overwrite: true,
+        notify_lead_owner: false,
+        Accounts: { id: '1' },
+        Contacts: { id: '2' },
+        assign_to: { id: '99' },
+        Deals: { Deal_Name: 'Renewal', Stage: 'Qualification', Closing_Date: '2026-12-31', Amount: 5000 },
+      }],
+    });
+  });
+
+  it('fails with Zoho\'s message when the lead is not converted', async () => {
+    const { client } = await createTestClient(() => ({
+      status: 400,
+      data: { data: [{ code: 'ALREADY_CONVERTED', status: 'error', message: 'the lead has already been converted', details: {} }] },
+    }));
+
+    const conversion = client.convertLead({ lead_id: '42' });
+    await expect(conversion).rejects.toThrow(ZohoApiClientError);
+    await expect(conversion).rejects.toThrow('Lead conversion failed: the lead has already been converted');
+  });
+});
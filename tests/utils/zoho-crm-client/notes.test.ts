@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { bodyOf, createTestClient, modulesResponse, type FakeResponse } from '../../helpers/zoho-client.js';
+
+const note = { id: 'n1', Note_Title: 'Call', Note_Content: 'Wants a demo', Parent_Id: { id: '42' } };
+
+function notesServer(request: InternalAxiosRequestConfig): FakeResponse {
+  if (request.url === '/settings/modules') {
+    return modulesResponse('Leads');
+  }
+  if (request.url === '/Notes/n1') {
+    return { data: { data: [note] } };
+  }
+  if (request.method === 'get') {
+    return { data: { data: [note], info: { count: 1, page: 1, per_page: 25, more_records: false } } };
+  }
+  return { data: { data: [{ code: 'SUCCESS', status: 'success', message: 'done', details: { id: 'n1' } }] } };
+}
+
+describe('ZohoCRMClient notes', () => {
+  it('lists the notes of a record with their owner and timestamps', async () => {
+    const { client, requests } = await createTestClient(notesServer);
+
+    const result = await client.listNotes({ module: 'Leads', record_id: '42' });
+
+    expect(result.records).toEqual([note]);
+    expect(requests.at(-1)?.url).toBe('/Leads/42/Notes');
+    expect(String((requests.at(-1)?.params as { fields: string }).fields).split(',')).toEqual(expect.arrayContaining(['Note_Title', 'Note_Content', 'Owner']));
+  });
+
+  it('adds a note to a record and returns the saved note', async () => {
+    const { client, requests } = await createTestClient(notesServer);
+
+    expect(await client.addNote({ module: 'Leads', record_id: '42', title: 'Call', content: 'Wants a demo' })).toEqual(note);
+    await client.addNote({ module: 'Leads', record_id: '42', content: 'No title' });
+
+    const adds = requests.filter((request) => request.method === 'post');
+    expect(adds.map((request) => [request.url, bodyOf(request)])).toEqual([
+      ['/Leads/42/Notes', { data: [{ Note_Content: 'Wants a demo', Note_Title: 'Call' }] }],
+      ['/Leads/42/Notes', { data: [{ Note_Content: 'No title' }] }],
+    ]);
+  });
+
+  it('updates only the parts of a note that are given', async () => {
+    const { client, requests } = await createTestClient(notesServer);
+
+    await client.updateNote({ module: 'Leads', record_id: '42', note_id: 'n1', title: 'Renamed' });
+
+    const update = requests.find((request) => request.method === 'put');
+    expect(update?.url).toBe('/Leads/42/Notes/n1');
+    expect(bodyOf(update!)).toEqual({ data: [{ Note_Title: 'Renamed' }] });
+    await expect(client.updateNote({ module: 'Leads', record_id: '42', note_id: 'n1' })).rejects.toThrow('Provide a title or content');
+  });
+
+  it('reports a note Zoho did not save', async () => {
+    const { client } = await createTestClient((request) => (request.method === 'post'
+      ? { status: 400, data: { data: [{ code: 'INVALID_DATA', status: 'error', message: 'invalid parent', details: {} }] } }
+      : notesServer(request)));
+
+    await expect(client.addNote({ module: 'Leads', record_id: '42', content: 'Lost' })).rejects.toThrow('Failed to add note: invalid parent');
+  });
+
+  it('deletes a note of a record', async () => {
+    const { client, requests } = await createTestClient(notesServer);
+
+    await client.deleteNote({ module: 'Leads', record_id: '42', note_id: 'n1' });
+
+    expect(requests.at(-1)).toMatchObject({ method: 'delete', url: '/Leads/42/Notes/n1' });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { createTestClient, modulesResponse, type FakeResponse } from '../../helpers/zoho-client.js';
+
+/**
+ * Serve `total` records from a module like Zoho does: by page number up to 2,000 records
+ * and by page token after that, with a next_page_token on every page that has more records.
+ * The search API serves no page tokens.
+ */
+function recordServer(total: number, { tokens = true } = {}) {
+  return (request: InternalAxiosRequestConfig): FakeResponse => {
+    if (request.url === '/settings/modules') {
+      return modulesResponse('Leads');
+    }
+
+    const params = request.params as { page?: number; per_page: number; page_token?: string };
+    let start: number;
+    if (params.page_token) {
+      start = Number(params.page_token.replace('after-', ''));
+    } else {
+      const page = params.page ?? 1;
+      if (page * params.per_page > 2000) {
+        return { status: 400, data: { code: 'LIMIT_REACHED', message: 'page limit reached' } };
+      }
+      start = (page - 1) * params.per_page;
+    }
+
+    const end = Math.min(start + params.per_page, total);
+    const data = Array.from({ length: end - start }, (_, index) => ({ id: String(start + index + 1) }));
+    const info: Record<string, unknown> = { count: data.length, per_page: params.per_page, more_records: end < total };
+    if (tokens && end < total) {
+      info.next_page_token = `after-${end}`;
+    }
+    return { data: { data, info } };
+  };
+}
+
+function pagingOf(request: InternalAxiosRequestConfig) {
+  const { page, page_token } = request.params as { page?: number; page_token?: string };
+  return page_token ?? page;
+}
+
+describe('ZohoCRMClient auto-pagination', () => {
+  it('fetches pages until Zoho reports no more records', async () => {
+    const { client, requests } = await createTestClient(recordServer(450));
+
+    const result = await client.searchRecords({ module: 'Leads', auto_paginate: true });
+
+    expect(result.records).toHaveLength(450);
+    expect(result.info).toMatchObject({ count: 450, more_records: false, pages_fetched: 3, truncated: false });
+    expect(result.info.truncated_reason).toBeUndefined();
+    expect(requests.filter((request) => request.url === '/Leads').map(pagingOf)).toEqual([1, 2, 3]);
+  });
+
+  it('switches from page numbers to page tokens after 2,000 records', async () => {
+    const { client, requests } = await createTestClient(recordServer(2500));
+
+    const result = await client.searchRecords({ module: 'Leads', auto_paginate: true, max_records: 5000 });
+
+    expect(result.records).toHaveLength(2500);
+    expect(result.records.at(-1)).toEqual({ id: '2500' });
+    expect(result.info).toMatchObject({ more_records: false, pages_fetched: 13, truncated: false });
+    expect(requests.filter((request) => request.url === '/Leads').map(pagingOf))
+      .toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 'after-2000', 'after-2200', 'after-2400']);
+  });
+
+  it('follows next_page_token from a starting page token', async () => {
+    const { client, requests } = await createTestClient(recordServer(700));
+
+    const result = await client.searchRecords({ module: 'Leads', auto_paginate: true, page_token: 'after-200' });
+
+    expect(result.records.map((record) => record.id).slice(0, 2)).toEqual(['201', '202']);
+    expect(result.info).toMatchObject({ count: 500, pages_fetched: 3, more_records: false });
+    expect(requests.filter((request) => request.url === '/Leads').map(pagingOf)).toEqual(['after-200', 'after-400', 'after-600']);
+  });
+
+  it('stops at max_records and keeps the token for the next page', async () => {
+    const { client } = await createTestClient(recordServer(1000));
+
+    const result = await client.searchRecords({ module: 'Leads', auto_paginate: true, per_page: 200, max_records: 300 });
+
+    expect(result.records).toHaveLength(300);
+    expect(result.info).toMatchObject({
+      count: 300,
+      more_records: true,
+      pages_fetched: 2,
+      truncated: true,
+      truncated_reason: 'max_records',
+      next_page_token: 'after-400',
+    });
+  });
+
+  it('stops a search at the 2,000 record limit', async () => {
+    const { client, requests } = await createTestClient(recordServer(3000, { tokens: false }));
+
+    const result = await client.searchRecords({ module: 'Leads', word: 'acme', auto_paginate: true, max_records: 5000 });
+
+    expect(result.records).toHaveLength(2000);
+    expect(result.info).toMatchObject({ pages_fetched: 10, more_records: true, truncated: true, truncated_reason: 'search_limit' });
+    expect(requests.filter((request) => request.url === '/Leads/search')).toHaveLength(10);
+  });
+
+  it('stops a listing at the 2,000 record limit when Zoho gives no page token', async () => {
+    const { client } = await createTestClient(recordServer(3000, { tokens: false }));
+
+    const result = await client.searchRecords({ module: 'Leads', auto_paginate: true, max_records: 5000 });
+
+    expect(result.records).toHaveLength(2000);
+    expect(result.info).toMatchObject({ pages_fetched: 10, more_records: true, truncated: true, truncated_reason: 'page_limit' });
+  });
+});
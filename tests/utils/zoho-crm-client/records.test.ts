@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { bodyOf, createTestClient, fieldsResponse, modulesResponse, type FakeResponse } from '../../helpers/zoho-client.js';
+import { InvalidFieldError } from '../../../src/types/index.js';
+
+const leadFields = fieldsResponse(['Last_Name', 'Last Name'], ['Company', 'Company'], ['Email', 'Email'], ['Annual_Revenue', 'Annual Revenue']);
+
+function success(id: string): Record<string, unknown> {
+  return { code: 'SUCCESS', status: 'success', message: 'record added', details: { id } };
+}
+
+/**
+ * Serve the Leads module metadata, and answer record requests with `respond`
+ */
+function leadsServer(respond: (request: InternalAxiosRequestConfig) => FakeResponse) {
+  return (request: InternalAxiosRequestConfig): FakeResponse => {
+    if (request.url === '/settings/modules') {
+      return modulesResponse('Leads');
+    }
+    if (request.url === '/settings/fields') {
+      return leadFields;
+    }
+    return respond(request);
+  };
+}
+
+describe('ZohoCRMClient record writes', () => {
+  it('creates records with their keys given as API names or labels', async () => {
+    const { client, requests } = await createTestClient(leadsServer(() => ({ status: 201, data: { data: [success('1'), success('2')] } })));
+
+    const results = await client.createRecords({
+      module: 'leads',
+      data: [{ 'Last Name': 'Burns', Company: 'Acme' }, { last_name: 'Smith', 'annual revenue': 1000 }],
+      trigger: ['workflow'],
+    });
+
+    expect(results.map((result) => result.details.id)).toEqual(['1', '2']);
+    const create = requests.at(-1);
+    expect(create?.method).toBe('post');
+    expect(create?.url).toBe('/Leads');
+    expect(bodyOf(create!)).toEqual({
+      data: [{ Last_Name: 'Burns', Company: 'Acme' }, { Last_Name: 'Smith', Annual_Revenue: 1000 }],
+      trigger: ['workflow'],
+    });
+  });
+
+  it('refuses keys that are not an API name or label, before writing', async () => {
+    const { client, requests } = await createTestClient(leadsServer(() => ({ data: { data: [success('1')] } })));
+
+    await expect(client.createRecords({ module: 'Leads', data: [{ Last_Name: 'Burns', Revenue: 1000 }] }))
+      .rejects.toThrow(InvalidFieldError);
+    await expect(client.createRecords({ module: 'Leads', data: [{ Last_Name: 'Burns', 'Last Name': 'Smith' }] }))
+      .rejects.toThrow('Field Last_Name of Leads is given twice, as "Last_Name" and "Last Name"');
+    expect(requests.filter((request) => request.method === 'post')).toHaveLength(0);
+  });
+
+  it('creates between 1 and 100 records per call', async () => {
+    const { client } = await createTestClient(leadsServer(() => ({ data: {} })));
+
+    await expect(client.createRecords({ module: 'Leads', data: [] })).rejects.toThrow('Between 1 and 100 records');
+    await expect(client.createRecords({ module: 'Leads', data: Array.from({ length: 101 }, () => ({ Last_Name: 'Burns' })) }))
+      .rejects.toThrow('Between 1 and 100 records');
+  });
+
+  it('returns the per-record results of a rejected write', async () => {
+    const rejected = { code: 'MANDATORY_NOT_FOUND', status: 'error', message: 'required field not found', details: { api_name: 'Last_Name' } };
+    const { client } = await createTestClient(leadsServer(() => ({ status: 400, data: { data: [rejected] } })));
+
+    expect(await client.createRecords({ module: 'Leads', data: [{ Company: 'Acme' }] })).toEqual([rejected]);
+  });
+
+  it('updates a record by ID', async () => {
+    const { client, requests } = await createTestClient(leadsServer(() => ({ data: { data: [success('42')] } })));
+
+    await client.updateRecord({ module: 'Leads', record_id: '42', data: { email: 'burns@example.com' } });
+
+    const update = requests.at(-1);
+    expect(update?.method).toBe('put');
+    expect(update?.url).toBe('/Leads/42');
+    expect(bodyOf(update!)).toEqual({ data: [{ Email: 'burns@example.com' }] });
+  });
+
+  it('deletes a record by ID, running workflows unless told not to', async () => {
+    const { client, requests } = await createTestClient(leadsServer(() => ({ data: { data: [success('42')] } })));
+
+    await client.deleteRecord({ module: 'Leads', record_id: '42' });
+    await client.deleteRecord({ module: 'Leads', record_id: '43', wf_trigger: false });
+
+    const deletes = requests.filter((request) => request.method === 'delete');
+    expect(deletes.map((request) => [request.url, request.params])).toEqual([
+      ['/Leads/42', { wf_trigger: true }],
+      ['/Leads/43', { wf_trigger: false }],
+    ]);
+  });
+});
+
+describe('ZohoCRMClient upsert', () => {
+  it('matches on the given duplicate check fields and reports each record in input order', async () => {
+    const { client, requests } = await createTestClient(leadsServer(() => ({
+      data: {
+        data: [
+          { ...success('1'), action: 'insert', duplicate_field: null },
+          { ...success('2'), action: 'update', duplicate_field: 'Email' },
+          { code: 'INVALID_DATA', status: 'error', message: 'invalid data', details: { api_name: 'Email' } },
+        ],
+      },
+    })));
+
+    const results = await client.upsertRecords({
+      module: 'Leads',
+      data: [{ Email: 'a@example.com' }, { Email: 'b@example.com' }, { Email: 'not an email' }],
+      duplicate_check_fields: ['email', 'Company'],
+    });
+
+    expect(bodyOf(requests.at(-1)!)).toMatchObject({ duplicate_check_fields: ['Email', 'Company'] });
+    expect(requests.at(-1)?.url).toBe('/Leads/upsert');
+    expect(results.map(({ index, outcome, id, duplicate_field }) => ({ index, outcome, id, duplicate_field }))).toEqual([
+      { index: 0, outcome: 'inserted', id: '1', duplicate_field: null },
+      { index: 1, outcome: 'updated', id: '2', duplicate_field: 'Email' },
+      { index: 2, outcome: 'rejected', id: undefined, duplicate_field: undefined },
+    ]);
+  });
+
+  it('leaves the duplicate check to Zoho\'s defaults when no fields are given', async () => {
+    const { client, requests } = await createTestClient(leadsServer(() => ({ data: { data: [{ ...success('1'), action: 'insert' }] } })));
+
+    await client.upsertRecords({ module: 'Leads', data: [{ Last_Name: 'Burns' }] });
+
+    expect(bodyOf(requests.at(-1)!)).toEqual({ data: [{ Last_Name: 'Burns' }] });
+  });
+
+  it('refuses duplicate check fields that are not an API name or label', async () => {
+    const { client } = await createTestClient(leadsServer(() => ({ data: {} })));
+
+    await expect(client.upsertRecords({ module: 'Leads', data: [{ Last_Name: 'Burns' }], duplicate_check_fields: ['Mail'] }))
+      .rejects.toThrow(InvalidFieldError);
+  });
+});
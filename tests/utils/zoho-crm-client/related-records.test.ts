@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { createTestClient, modulesResponse, type FakeResponse } from '../../helpers/zoho-client.js';
+
+const relatedLists = [
+  { api_name: 'Contacts', display_label: 'Contacts', module: { api_name: 'Contacts' } },
+  { api_name: 'Deals', display_label: 'Deals', module: { api_name: 'Deals' } },
+];
+
+function accountsServer(respond: (request: InternalAxiosRequestConfig) => FakeResponse = () => ({ status: 204, data: '' })) {
+  return (request: InternalAxiosRequestConfig): FakeResponse => {
+    if (request.url === '/settings/modules') {
+      return modulesResponse('Accounts');
+    }
+    if (request.url === '/settings/related_lists') {
+      return { data: { related_lists: relatedLists } };
+    }
+    return respond(request);
+  };
+}
+
+describe('ZohoCRMClient related lists', () => {
+  it('lists the related lists of a module once, from the metadata cache afterwards', async () => {
+    const { client, requests } = await createTestClient(accountsServer());
+
+    expect(await client.getRelatedLists({ module: 'Accounts' })).toEqual(relatedLists);
+    await client.getRelatedLists({ module: 'accounts' });
+
+    const loads = requests.filter((request) => request.url === '/settings/related_lists');
+    expect(loads.map((request) => request.params)).toEqual([{ module: 'Accounts' }]);
+  });
+
+  it('lists the records of a related list with fields, sorting and paging', async () => {
+    const { client, requests } = await createTestClient(accountsServer(() => ({
+      data: { data: [{ id: '7' }], info: { count: 1, page: 2, per_page: 10, more_records: true, next_page_token: 'next' } },
+    })));
+
+    const result = await client.listRelatedRecords({
+      module: 'Accounts',
+      record_id: '42',
+      related_list: 'Deals',
+      fields: ['Deal_Name', 'Stage'],
+      sort_by: 'Closing_Date',
+      page: 2,
+      per_page: 10,
+    });
+
+    expect(result).toEqual({ records: [{ id: '7' }], info: { count: 1, page: 2, per_page: 10, more_records: true, next_page_token: 'next' } });
+    const list = requests.at(-1);
+    expect(list?.url).toBe('/Accounts/42/Deals');
+    expect(list?.params).toEqual({ fields: 'Deal_Name,Stage', sort_by: 'Closing_Date', sort_order: 'asc', page: 2, per_page: 10 });
+  });
+
+  it('continues a related list by page token', async () => {
+    const { client, requests } = await createTestClient(accountsServer());
+
+    await client.listRelatedRecords({ module: 'Accounts', record_id: '42', related_list: 'Contacts', page_token: 'next' });
+
+    expect(requests.at(-1)?.params).toEqual({ per_page: 25, page_token: 'next' });
+  });
+
+  it('returns no records for an empty related list', async () => {
+    const { client } = await createTestClient(accountsServer());
+
+    const result = await client.listRelatedRecords({ module: 'Accounts', record_id: '42', related_list: 'Contacts' });
+
+    expect(result.records).toEqual([]);
+    expect(result.info).toMatchObject({ count: 0, more_records: false });
+  });
+});
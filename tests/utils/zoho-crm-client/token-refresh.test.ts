@@ -0,0 +1,152 @@
+import axios, { AxiosError, type AxiosResponse } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { createTestClient, tokenOf, type FakeResponse, type TestClient } from '../../helpers/zoho-client.js';
+
+const expired = { expires_at: new Date(Date.now() - 1000).toISOString() };
+
+function tokenResponse(accessToken: string): AxiosResponse {
+  return { status: 200, data: { access_token: accessToken, expires_in: 3600 } } as AxiosResponse;
+}
+
+function serverError(status: number): AxiosError {
+  return new AxiosError('Request failed', AxiosError.ERR_BAD_RESPONSE, undefined, null, { status, data: {} } as AxiosResponse);
+}
+
+const invalidToken: FakeResponse = { status: 401, data: { code: 'INVALID_TOKEN', message: 'invalid oauth token' } };
+
+describe('ZohoCRMClient token refresh', () => {
+  let testClient: TestClient | undefined;
+  let post: MockInstance<Parameters<typeof axios.post>, Promise<AxiosResponse>>;
+
+  beforeEach(() => {
+    post = vi.spyOn(axios, 'post');
+  });
+
+  afterEach(() => {
+    testClient?.client.stopTokenRenewal();
+    testClient = undefined;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('shares one refresh between concurrent requests', async () => {
+    let finishRefresh = (_response: AxiosResponse) => {};
+    post.mockImplementation(() => new Promise((resolve) => {
+      finishRefresh = resolve;
+    }));
+    testClient = await createTestClient(() => ({ data: { users: [] } }), expired);
+
+    const calls = [testClient.client.testConnection(), testClient.client.testConnection(), testClient.client.testConnection()];
+    await vi.waitFor(() => expect(post).toHaveBeenCalled());
+    expect(testClient.client.getTokenStatus().refresh_in_flight).toBe(true);
+    finishRefresh(tokenResponse('token-2'));
+
+    expect((await Promise.all(calls)).every((result) => result.success)).toBe(true);
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(testClient.requests.map(tokenOf)).toEqual(['token-2', 'token-2', 'token-2']);
+  });
+
+  it('saves the refreshed token with the refresh token', async () => {
+    post.mockResolvedValue(tokenResponse('token-2'));
+    testClient = await createTestClient(() => ({ data: {} }), expired);
+
+    await testClient.client.testConnection();
+    expect(await testClient.tokenStore.load()).toMatchObject({ access_token: 'token-2', refresh_token: 'refresh-token' });
+    expect(post.mock.calls[0]?.[0]).toBe('https://accounts.zoho.com/oauth/v2/token');
+  });
+
+  it('retries server errors with jittered exponential backoff', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    post
+      .mockRejectedValueOnce(serverError(503))
+      .mockRejectedValueOnce(serverError(500))
+      .mockResolvedValueOnce(tokenResponse('token-2'));
+    testClient = await createTestClient(() => ({ data: {} }), expired);
+
+    const call = testClient.client.testConnection();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(post).toHaveBeenCalledTimes(1);
+
+    // Half of 1s, then half of 2s, with Math.random() at 0
+    await vi.advanceTimersByTimeAsync(499);
+    expect(post).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(post).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(post).toHaveBeenCalledTimes(3);
+
+    expect((await call).success).toBe(true);
+    expect(testClient.client.getTokenStatus()).toMatchObject({ consecutive_failures: 0, last_refresh_error: null });
+  });
+
+  it('does not retry a rejected refresh token', async () => {
+    post.mockResolvedValue({ status: 200, data: { error: 'invalid_code' } } as AxiosResponse);
+    testClient = await createTestClient(() => ({ data: {} }), expired);
+
+    const result = await testClient.client.testConnection();
+    expect(result).toEqual({ success: false, error: 'Failed to refresh access token: invalid_code' });
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(testClient.client.getTokenStatus()).toMatchObject({ consecutive_failures: 1, last_refresh_error: 'invalid_code' });
+  });
+
+  it('renews the token in the background before it expires, and retries a failed renewal', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    post.mockRejectedValueOnce(new AxiosError('invalid_client')).mockRejectedValue(serverError(400));
+    testClient = await createTestClient(() => ({ data: {} }), { expires_at: new Date(Date.now() + 10 * 60 * 1000).toISOString() });
+    await vi.advanceTimersByTimeAsync(0);
+
+    // 10 minutes to expiry, less the 5 minute buffer and half of the 1 minute jitter
+    const renewAt = Date.now() + 4.5 * 60 * 1000;
+    expect(testClient.client.getTokenStatus().next_renewal_at).toBe(new Date(renewAt).toISOString());
+
+    await vi.advanceTimersByTimeAsync(4.5 * 60 * 1000 - 1);
+    expect(post).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(post).toHaveBeenCalled();
+
+    // Network errors are retried within the refresh; the final 400 fails it and schedules another renewal in 30s
+    await vi.advanceTimersByTimeAsync(500);
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(testClient.client.getTokenStatus().next_renewal_at).toBe(new Date(Date.now() + 30 * 1000).toISOString());
+  });
+
+  it('refreshes and replays a request whose token Zoho rejected', async () => {
+    post.mockResolvedValue(tokenResponse('token-2'));
+    testClient = await createTestClient((request) => (tokenOf(request) === 'token-1' ? invalidToken : { data: { users: [] } }));
+
+    expect((await testClient.client.testConnection()).success).toBe(true);
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(testClient.requests.map(tokenOf)).toEqual(['token-1', 'token-2']);
+  });
+
+  it('replays late rejections of a replaced token without refreshing again', async () => {
+    post.mockResolvedValue(tokenResponse('token-2'));
+    const pending: Array<(response: FakeResponse) => void> = [];
+    testClient = await createTestClient((request) => (tokenOf(request) === 'token-1'
+      ? new Promise<FakeResponse>((resolve) => pending.push(resolve))
+      : { data: { users: [] } }));
+
+    const first = testClient.client.testConnection();
+    const second = testClient.client.testConnection();
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+
+    pending[0]?.(invalidToken);
+    expect((await first).success).toBe(true);
+    pending[1]?.(invalidToken);
+    expect((await second).success).toBe(true);
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(testClient.requests.map(tokenOf)).toEqual(['token-1', 'token-1', 'token-2', 'token-2']);
+  });
+
+  it('gives up after one replay', async () => {
+    post.mockResolvedValue(tokenResponse('token-2'));
+    testClient = await createTestClient(() => invalidToken);
+
+    const result = await testClient.client.testConnection();
+    expect(result.success).toBe(false);
+    expect(testClient.requests).toHaveLength(2);
+  });
+});